@@ -0,0 +1,30 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { LANGUAGE_STORAGE_KEY, LanguageContext } from "@/hooks/use-language";
+import { Language } from "@/lib/i18n";
+
+function readLanguage(): Language {
+  try {
+    return localStorage.getItem(LANGUAGE_STORAGE_KEY) === "ta" ? "ta" : "en";
+  } catch {
+    return "en";
+  }
+}
+
+const LanguageProvider = ({ children }: { children: ReactNode }) => {
+  const [language, setLanguageState] = useState<Language>(readLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+  }, []);
+
+  const value = useMemo(() => ({ language, setLanguage }), [language, setLanguage]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export default LanguageProvider;
@@ -0,0 +1,26 @@
+import { Languages } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLanguage } from "@/hooks/use-language";
+import { Language, languages } from "@/lib/i18n";
+
+const LanguageSwitcher = () => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+      <SelectTrigger className="h-9 w-[130px]" aria-label={t("common.language")}>
+        <Languages className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {languages.map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,275 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+import {
+  useCreateLedger,
+  useDeleteLedgerInvitation,
+  useInviteLedgerMember,
+  useLedgerInvitations,
+  useLedgerMembers,
+  useRemoveLedgerMember,
+  useRenameLedger,
+  useSetLedgerMemberRole,
+} from "@/hooks/use-ledgers";
+import { LedgerRole, ledgerRoles } from "@/lib/repository";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface LedgerDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LedgerDialog = ({ userId, open, onOpenChange }: LedgerDialogProps) => {
+  const { ledger, ledgerId, isOwner, setLedgerId } = useLedger();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<LedgerRole>("editor");
+  const [newName, setNewName] = useState("");
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const membersQuery = useLedgerMembers(ledgerId, open);
+  const invitationsQuery = useLedgerInvitations(ledgerId, open && isOwner);
+  const renameLedger = useRenameLedger();
+  const removeMember = useRemoveLedgerMember();
+  const setMemberRole = useSetLedgerMemberRole();
+  const inviteMember = useInviteLedgerMember();
+  const deleteInvitation = useDeleteLedgerInvitation();
+  const createLedger = useCreateLedger();
+
+  useEffect(() => {
+    if (open) setName(ledger?.name ?? "");
+  }, [open, ledger?.name]);
+
+  // Every action reports the same way; the caller only supplies what to say on success
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: t("common.success"), description: success });
+      return true;
+    } catch (error) {
+      console.error("Error updating ledger:", error);
+      toast({
+        title: t("common.error"),
+        description: t("ledger.actionFailed"),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    run(() => renameLedger.mutateAsync({ id: ledgerId, name: name.trim() }), t("ledger.renamed"));
+  };
+
+  const handleInvite = async (event: FormEvent) => {
+    event.preventDefault();
+    const address = email.trim();
+    if (!EMAIL_PATTERN.test(address)) {
+      toast({ title: t("common.error"), description: t("ledger.invalidEmail"), variant: "destructive" });
+      return;
+    }
+    if (await run(() => inviteMember.mutateAsync({ ledgerId, email: address, role: inviteRole }), t("ledger.invited", { email: address }))) {
+      setEmail("");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (await run(() => removeMember.mutateAsync({ ledgerId, userId }), t("ledger.left"))) {
+      onOpenChange(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    let id = "";
+    const created = await run(async () => {
+      id = await createLedger.mutateAsync(newName.trim());
+    }, t("ledger.created"));
+    if (created) {
+      setNewName("");
+      setLedgerId(id);
+      onOpenChange(false);
+    }
+  };
+
+  const members = membersQuery.data ?? [];
+  const invitations = invitationsQuery.data ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("ledger.manage")}</DialogTitle>
+          <DialogDescription>{t("ledger.manageDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleRename} className="space-y-2">
+          <Label htmlFor="ledger-name">{t("ledger.name")}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="ledger-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              disabled={!isOwner}
+            />
+            {isOwner && (
+              <Button type="submit" variant="outline" disabled={renameLedger.isPending || !name.trim()}>
+                {t("ledger.saveName")}
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">{t("ledger.members")}</h3>
+          {membersQuery.isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {members.map((member) => (
+                <li key={member.user_id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <span className="truncate">
+                    {member.email} {member.user_id === userId && (
+                      <span className="text-muted-foreground">{t("ledger.you")}</span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isOwner && member.user_id !== userId ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => run(
+                          () => setMemberRole.mutateAsync({ ledgerId, userId: member.user_id, role: role as LedgerRole }),
+                          t("ledger.roleChanged")
+                        )}
+                      >
+                        <SelectTrigger className="h-8 w-[110px]" aria-label={t("ledger.role")}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ledgerRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{t(`ledger.role.${role}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={member.role === "owner" ? "default" : "secondary"}>
+                        {t(`ledger.role.${member.role}`)}
+                      </Badge>
+                    )}
+                    {isOwner && member.user_id !== userId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => run(
+                          () => removeMember.mutateAsync({ ledgerId, userId: member.user_id }),
+                          t("ledger.removed")
+                        )}
+                      >
+                        {t("ledger.remove")}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {!isOwner && (
+            <Button variant="outline" className="text-destructive" onClick={handleLeave} disabled={removeMember.isPending}>
+              {t("ledger.leave")}
+            </Button>
+          )}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <form onSubmit={handleInvite} className="space-y-2">
+              <Label htmlFor="ledger-invite">{t("ledger.invite")}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="ledger-invite"
+                  type="email"
+                  value={email}
+                  onChange={(event) => setEmail(event.target.value)}
+                  placeholder="name@example.com"
+                />
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as LedgerRole)}>
+                  <SelectTrigger className="w-[130px] shrink-0" aria-label={t("ledger.role")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ledgerRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{t(`ledger.role.${role}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={inviteMember.isPending}>
+                  {t("ledger.inviteButton")}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t(`ledger.roleHint.${inviteRole}`)} {t("ledger.inviteHint")}
+              </p>
+            </form>
+
+            {invitations.length > 0 && (
+              <>
+                <h3 className="text-sm font-medium">{t("ledger.pendingInvitations")}</h3>
+                <ul className="divide-y rounded-md border">
+                  {invitations.map((invitation) => (
+                    <li key={invitation.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <span className="truncate">
+                        {invitation.email}{" "}
+                        <span className="text-muted-foreground">({t(`ledger.role.${invitation.role}`)})</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => run(() => deleteInvitation.mutateAsync(invitation.id), t("ledger.revoked"))}
+                      >
+                        {t("ledger.revoke")}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <Label htmlFor="ledger-new">{t("ledger.new")}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="ledger-new"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder={t("ledger.newPlaceholder")}
+            />
+            <Button type="submit" variant="outline" disabled={createLedger.isPending || !newName.trim()}>
+              {t("common.create")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LedgerDialog;
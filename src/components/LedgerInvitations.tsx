@@ -0,0 +1,77 @@
+import { Mail } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+import { useAcceptLedgerInvitation, useDeleteLedgerInvitation, useMyInvitations } from "@/hooks/use-ledgers";
+
+/** Invitations to other people's ledgers, shown until they are accepted or declined */
+const LedgerInvitations = () => {
+  const { setLedgerId } = useLedger();
+  const { data: invitations = [] } = useMyInvitations();
+  const acceptInvitation = useAcceptLedgerInvitation();
+  const declineInvitation = useDeleteLedgerInvitation();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const busy = acceptInvitation.isPending || declineInvitation.isPending;
+
+  const reportFailure = (error: unknown) => {
+    console.error("Error answering invitation:", error);
+    toast({
+      title: t("common.error"),
+      description: t("ledger.actionFailed"),
+      variant: "destructive",
+    });
+  };
+
+  const handleAccept = async (id: string, ledgerName: string) => {
+    try {
+      setLedgerId(await acceptInvitation.mutateAsync(id));
+      toast({ title: t("common.success"), description: t("ledger.joined", { ledger: ledgerName }) });
+    } catch (error) {
+      reportFailure(error);
+    }
+  };
+
+  const handleDecline = async (id: string) => {
+    try {
+      await declineInvitation.mutateAsync(id);
+    } catch (error) {
+      reportFailure(error);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 max-w-4xl mx-auto">
+      {invitations.map((invitation) => (
+        <Alert key={invitation.id}>
+          <Mail className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              {t("ledger.invitation", {
+                inviter: invitation.invited_by_email ?? "",
+                ledger: invitation.ledger_name,
+              })}
+            </span>
+            <span className="flex gap-2">
+              <Button size="sm" onClick={() => handleAccept(invitation.id, invitation.ledger_name)} disabled={busy}>
+                {t("ledger.join")}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleDecline(invitation.id)} disabled={busy}>
+                {t("ledger.decline")}
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+};
+
+export default LedgerInvitations;
@@ -0,0 +1,72 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import LedgerSetup from "@/components/LedgerSetup";
+import { LedgerContext } from "@/hooks/use-ledger";
+import { Ledger, listLedgers, queryKeys } from "@/lib/repository";
+
+const activeKey = (userId: string) => `moi.ledger.${userId}`;
+const listKey = (userId: string) => `moi.ledgers.${userId}`;
+
+function readStored<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const LedgerProvider = ({ userId, children }: { userId: string; children: ReactNode }) => {
+  const [activeId, setActiveId] = useState<string | null>(() => readStored(activeKey(userId), null));
+
+  // The last known list is kept on the device so the app still opens offline
+  const { data, isPending, isError, isFetching, refetch } = useQuery({
+    queryKey: queryKeys.ledgers,
+    queryFn: listLedgers,
+    initialData: () => readStored<Ledger[] | undefined>(listKey(userId), undefined),
+    initialDataUpdatedAt: 0,
+  });
+
+  const ledgers = useMemo(() => data ?? [], [data]);
+
+  useEffect(() => {
+    if (data) localStorage.setItem(listKey(userId), JSON.stringify(data));
+  }, [userId, data]);
+
+  const setLedgerId = useCallback((id: string) => {
+    setActiveId(id);
+    localStorage.setItem(activeKey(userId), JSON.stringify(id));
+  }, [userId]);
+
+  // Fall back to the first ledger when the stored one was left or removed
+  const ledger = ledgers.find((candidate) => candidate.id === activeId) ?? ledgers[0] ?? null;
+
+  const value = useMemo(() => ({ ledger, ledgers, setLedgerId }), [ledger, ledgers, setLedgerId]);
+
+  if (!ledger) {
+    if (isPending) {
+      return (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    // Nothing to open yet: either the list failed to load or the user belongs to no ledger
+    return (
+      <LedgerContext.Provider value={value}>
+        <LedgerSetup failed={isError} retrying={isFetching} onRetry={() => refetch()} />
+      </LedgerContext.Provider>
+    );
+  }
+
+  // Keyed by ledger so a switch starts every tab afresh instead of carrying over open customers and loaded lists
+  return (
+    <LedgerContext.Provider key={ledger.id} value={value}>
+      {children}
+    </LedgerContext.Provider>
+  );
+};
+
+export default LedgerProvider;
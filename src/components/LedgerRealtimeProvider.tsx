@@ -0,0 +1,75 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedger } from "@/hooks/use-ledger";
+import { LedgerRealtimeContext } from "@/hooks/use-ledger-realtime";
+import { invalidateLedger } from "@/lib/repository";
+
+// Matches the row-highlight animation, after which the row is no longer new
+const HIGHLIGHT_MS = 3000;
+// An import or a trigger-maintained balance arrives as a burst of events; refetch once per burst
+const REFETCH_DELAY_MS = 300;
+
+const LedgerRealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const { ledgerId } = useLedger();
+  const [recentIds, setRecentIds] = useState<ReadonlySet<string>>(new Set());
+  const [lastChangeAt, setLastChangeAt] = useState(0);
+  const refetchTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    const timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+    const markRecent = (id: string) => {
+      setRecentIds((current) => new Set(current).add(id));
+      const timeout = setTimeout(() => {
+        timeouts.delete(timeout);
+        setRecentIds((current) => {
+          const next = new Set(current);
+          next.delete(id);
+          return next;
+        });
+      }, HIGHLIGHT_MS);
+      timeouts.add(timeout);
+    };
+
+    const scheduleRefetch = () => {
+      clearTimeout(refetchTimeout.current);
+      refetchTimeout.current = setTimeout(() => {
+        setLastChangeAt(Date.now());
+        invalidateLedger(queryClient);
+      }, REFETCH_DELAY_MS);
+    };
+
+    const handleChange = (payload: { eventType: string; new: Record<string, unknown> }) => {
+      if (payload.eventType === "INSERT" && typeof payload.new.id === "string") {
+        markRecent(payload.new.id);
+      }
+      scheduleRefetch();
+    };
+
+    // Other members' changes arrive here too, so everyone sharing the ledger stays in step.
+    // Deletes cannot be filtered by column, so any delete the user may see triggers a refetch.
+    const filter = `ledger_id=eq.${ledgerId}`;
+    const channel = supabase.channel(`ledger-changes-${ledgerId}`);
+    for (const table of ["customers", "transactions", "events"]) {
+      channel
+        .on("postgres_changes", { event: "INSERT", schema: "public", table, filter }, handleChange)
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table, filter }, handleChange)
+        .on("postgres_changes", { event: "DELETE", schema: "public", table }, handleChange);
+    }
+    channel.subscribe();
+
+    return () => {
+      clearTimeout(refetchTimeout.current);
+      timeouts.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, ledgerId]);
+
+  const value = useMemo(() => ({ recentIds, lastChangeAt }), [recentIds, lastChangeAt]);
+
+  return <LedgerRealtimeContext.Provider value={value}>{children}</LedgerRealtimeContext.Provider>;
+};
+
+export default LedgerRealtimeProvider;
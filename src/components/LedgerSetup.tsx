@@ -0,0 +1,101 @@
+import { FormEvent, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import LedgerInvitations from "@/components/LedgerInvitations";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+import { useCreateLedger } from "@/hooks/use-ledgers";
+
+interface LedgerSetupProps {
+  /** The ledger list could not be loaded, as opposed to the user belonging to none */
+  failed: boolean;
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+/** Shown in place of the dashboard until there is a ledger to open */
+const LedgerSetup = ({ failed, retrying, onRetry }: LedgerSetupProps) => {
+  const [name, setName] = useState("");
+  const { setLedgerId } = useLedger();
+  const createLedger = useCreateLedger();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    try {
+      setLedgerId(await createLedger.mutateAsync(name.trim()));
+      toast({ title: t("common.success"), description: t("ledger.created") });
+    } catch (error) {
+      console.error("Error creating ledger:", error);
+      toast({
+        title: t("common.error"),
+        description: t("ledger.actionFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="absolute top-4 right-4 flex items-center gap-2">
+        <LanguageSwitcher />
+        <Button variant="outline" size="sm" onClick={() => supabase.auth.signOut()}>
+          {t("app.logout")}
+        </Button>
+      </div>
+      <div className="w-full max-w-md space-y-4">
+        {failed ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("ledger.loadFailed")}</CardTitle>
+              <CardDescription>{t("ledger.loadFailedDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={onRetry} disabled={retrying}>
+                {retrying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("ledger.retry")}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <LedgerInvitations />
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("ledger.emptyTitle")}</CardTitle>
+                <CardDescription>{t("ledger.emptyDescription")}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreate} className="space-y-2">
+                  <Label htmlFor="ledger-setup-name">{t("ledger.name")}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="ledger-setup-name"
+                      value={name}
+                      onChange={(event) => setName(event.target.value)}
+                      placeholder={t("ledger.newPlaceholder")}
+                    />
+                    <Button type="submit" disabled={createLedger.isPending || !name.trim()}>
+                      {createLedger.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {t("common.create")}
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LedgerSetup;
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { BookOpen, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LedgerDialog from "@/components/LedgerDialog";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+
+const LedgerSwitcher = ({ userId }: { userId: string }) => {
+  const { ledger, ledgers, setLedgerId } = useLedger();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { t } = useLanguage();
+
+  // An open customer belongs to the ledger being left behind
+  const handleChange = (id: string) => {
+    setLedgerId(id);
+    if (searchParams.has("customer")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("customer");
+      setSearchParams(next);
+    }
+  };
+
+  return (
+    <>
+      <Select value={ledger?.id} onValueChange={handleChange}>
+        <SelectTrigger className="h-9 w-[180px]" aria-label={t("ledger.label")}>
+          <BookOpen className="h-4 w-4 mr-2 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ledgers.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-9 w-9"
+        onClick={() => setDialogOpen(true)}
+        aria-label={t("ledger.manage")}
+        title={t("ledger.manage")}
+      >
+        <Settings className="h-4 w-4" />
+      </Button>
+      <LedgerDialog userId={userId} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </>
+  );
+};
+
+export default LedgerSwitcher;
@@ -0,0 +1,105 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { OfflineQueueContext } from "@/hooks/use-offline-queue";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { LedgerCreate, listQueued, pushEntry, putQueued, QueuedEntry, removeQueued } from "@/lib/offline-queue";
+import { invalidateLedger } from "@/lib/repository";
+
+const OfflineQueueProvider = ({ userId, children }: { userId: string; children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<QueuedEntry[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setEntries(await listQueued(userId));
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let synced = 0;
+    let failed = 0;
+    try {
+      for (const entry of await listQueued(userId)) {
+        try {
+          if (await pushEntry(entry) === "offline") break;
+          await removeQueued(entry.id);
+          synced++;
+        } catch (error) {
+          console.error("Error syncing offline entry:", error);
+          await putQueued({ ...entry, error: error instanceof Error ? error.message : String(error) });
+          failed++;
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    if (synced > 0) {
+      invalidateLedger(queryClient);
+      toast({
+        title: t("common.success"),
+        description: t("offline.synced", { count: synced }),
+      });
+    }
+    if (failed > 0) {
+      toast({
+        title: t("common.error"),
+        description: t("offline.syncFailed", { count: failed }),
+        variant: "destructive",
+      });
+    }
+  }, [userId, refresh, queryClient, toast, t]);
+
+  const create = useCallback(async (entry: LedgerCreate) => {
+    // Moi for a customer who is still queued has to wait behind them
+    const waiting = entry.kind === "transaction" && entries.some((queued) => queued.id === entry.customerId);
+    if (!waiting && await pushEntry(entry) === "synced") {
+      return { queued: false };
+    }
+
+    await putQueued({ ...entry, userId, queuedAt: new Date().toISOString() });
+    await refresh();
+    return { queued: true };
+  }, [entries, userId, refresh]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueued(id);
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh().then(sync);
+
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refresh, sync]);
+
+  const value = useMemo(
+    () => ({ entries, online, syncing, create, discard, sync }),
+    [entries, online, syncing, create, discard, sync]
+  );
+
+  return <OfflineQueueContext.Provider value={value}>{children}</OfflineQueueContext.Provider>;
+};
+
+export default OfflineQueueProvider;
@@ -0,0 +1,33 @@
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/use-language";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+
+const SyncStatus = () => {
+  const { entries, online, syncing, sync } = useOfflineQueue();
+  const { t } = useLanguage();
+
+  return (
+    <>
+      {!online && (
+        <Badge variant="secondary" className="gap-1">
+          <CloudOff className="h-3 w-3" />
+          {t("offline.offline")}
+        </Badge>
+      )}
+      {entries.length > 0 && (
+        <Button variant="outline" size="sm" onClick={sync} disabled={!online || syncing}>
+          {syncing ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          {syncing ? t("offline.syncing") : t("offline.pending", { count: entries.length })}
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { useLanguage } from "@/hooks/use-language";
+
+// The app stays open for a whole function, so look for a new version every hour
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const UpdatePrompt = () => {
+  const { t } = useLanguage();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_url, registration) => {
+      if (registration) {
+        setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+      }
+    },
+    onRegisterError: (error) => console.error("Error registering service worker:", error),
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast.success(t("pwa.offlineReady"));
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady, t]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    // A fixed id lets a language switch relabel the open prompt instead of stacking another
+    toast(t("pwa.updateAvailable"), {
+      id: "pwa-update",
+      duration: Infinity,
+      action: {
+        label: t("pwa.reload"),
+        onClick: () => updateServiceWorker(true),
+      },
+      onDismiss: () => setNeedRefresh(false),
+    });
+  }, [needRefresh, setNeedRefresh, t, updateServiceWorker]);
+
+  return null;
+};
+
+export default UpdatePrompt;
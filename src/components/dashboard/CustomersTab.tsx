@@ -1,79 +1,126 @@
 import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronLeft, ChevronRight, Plus, Edit, Trash2 } from "lucide-react";
+import { ChevronLeft, ChevronRight, Plus, Edit, Trash2, History, ArrowDown, ArrowUp, ArrowUpDown, Download, Loader2, Upload, Printer, Merge, X } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useQueryClient } from "@tanstack/react-query";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomer, useCustomers, useDeleteCustomer, useRestoreCustomer, useSaveCustomer } from "@/hooks/use-customers";
+import {
+  useCustomerTransactions,
+  useDeleteTransaction,
+  useRestoreTransaction,
+  useSaveTransaction,
+} from "@/hooks/use-transactions";
+import { useEvents } from "@/hooks/use-events";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useLedgerRealtime } from "@/hooks/use-ledger-realtime";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useLedger } from "@/hooks/use-ledger";
+import { useUpliftRule } from "@/hooks/use-uplift-rule";
+import { useLanguage } from "@/hooks/use-language";
+import { suggestReturnAmount } from "@/lib/reciprocity";
+import { amountInWords } from "@/lib/amount-words";
+import {
+  Customer,
+  customerChunks,
+  CustomerFilters,
+  CustomerSortKey,
+  emptyCustomerFilters,
+  matchesCustomerFilters,
+  invalidateLedger,
+  queryKeys,
+  Transaction,
+} from "@/lib/repository";
+import { QueuedCustomer, QueuedEntry, QueuedTransaction, toQueuedCustomer } from "@/lib/offline-queue";
+import { downloadCsv, formatCsvAmount, toCsvRow, yieldToBrowser } from "@/lib/csv";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
+import { customerSchema, CustomerFormValues, transactionSchema, TransactionFormValues } from "@/lib/schemas";
+import { TranslationKey } from "@/lib/i18n";
+import ImportDialog from "@/components/dashboard/ImportDialog";
+import HistoryDialog, { HistoryTarget } from "@/components/dashboard/HistoryDialog";
+import MergeCustomersDialog from "@/components/dashboard/MergeCustomersDialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
-interface Customer {
-  id: string;
-  firstName: string;
-  lastName: string;
-  villageName: string;
-  pendingAmount: number;
-  createdDate: string;
-  pageNo: number;
-  notes?: string;
-}
-
-interface Transaction {
-  id: string;
-  customer_id: string;
-  notes: string | null;
-  amount: number;
-  event_date: string;
-  created_date: string;
-}
-
-const customerSchema = z.object({
-  pageNo: z.string().min(1, "Page number is required"),
-  firstName: z.string().min(1, "First name is required").max(100),
-  lastName: z.string().min(1, "Last name is required").max(100),
-  villageName: z.string().min(1, "Village is required").max(100),
-  notes: z.string().max(500).optional(),
-});
-
-const transactionSchema = z.object({
-  amount: z.string().min(1, "Amount is required"),
-  eventDate: z.string().min(1, "Event date is required"),
-  notes: z.string().max(500).optional(),
-});
+const NO_EVENT = "none";
+
+const pageSizeOptions = [10, 25, 50, 100];
+
+const EXPORT_CHUNK_SIZE = 1000;
 
 const CustomersTab = () => {
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [transactionDialogOpen, setTransactionDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [deleteCustomerDialogOpen, setDeleteCustomerDialogOpen] = useState(false);
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
   const [deleteTransactionId, setDeleteTransactionId] = useState<string | null>(null);
-  const [filters, setFilters] = useState({
-    id: "",
-    firstName: "",
-    lastName: "",
-    villageName: "",
-    pageNo: "",
-  });
-  const itemsPerPage = 10;
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null);
+  // Kept across pages and filters, since duplicates rarely sit side by side
+  const [mergeSelection, setMergeSelection] = useState<Customer[]>([]);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [filters, setFilters] = useState<CustomerFilters>(emptyCustomerFilters);
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const [sortKey, setSortKey] = useState<CustomerSortKey>("created_date");
+  const [ascending, setAscending] = useState(false);
+  const [itemsPerPage, setItemsPerPage] = useState(10);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
   const { toast } = useToast();
+  const { rule: upliftRule } = useUpliftRule();
+  const { t, language } = useLanguage();
+  const { formatCurrency, formatSignedCurrency, formatDate, formatDateTime } = useFormatters();
+  const { isRecent } = useLedgerRealtime();
+  const { ledgerId, canAdd, canEdit } = useLedger();
+  const { entries: allQueuedEntries, discard } = useOfflineQueue();
+  const queuedEntries = allQueuedEntries.filter((entry) => entry.ledgerId === ledgerId);
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const customerParam = searchParams.get("customer");
+
+  const sort = { key: sortKey, ascending };
+  const customersQuery = useCustomers(debouncedFilters, sort, currentPage, itemsPerPage);
+  const { data: events = [] } = useEvents();
+  const customers = customersQuery.data?.customers ?? [];
+  const totalCount = customersQuery.data?.count ?? null;
+  const queuedCustomers = queuedEntries.filter((entry): entry is QueuedCustomer => entry.kind === "customer");
+  const queuedSelectedCustomer = queuedCustomers.find((entry) => entry.id === selectedCustomerId);
+  const isQueuedSelection = !!queuedSelectedCustomer;
+  const listedQueuedCustomers = queuedCustomers.filter(
+    (entry) => matchesCustomerFilters(toQueuedCustomer(entry), debouncedFilters)
+  );
+  const selectedCustomerQuery = useCustomer(selectedCustomerId);
+  const selectedCustomer = selectedCustomerQuery.data
+    ?? (queuedSelectedCustomer ? toQueuedCustomer(queuedSelectedCustomer) : null);
+  const transactionsQuery = useCustomerTransactions(selectedCustomerId);
+  const transactions = transactionsQuery.data ?? [];
+  const queuedTransactions = queuedEntries.filter(
+    (entry): entry is QueuedTransaction => entry.kind === "transaction" && entry.customerId === selectedCustomerId
+  );
+  const saveCustomer = useSaveCustomer();
+  const removeCustomer = useDeleteCustomer();
+  const restoreCustomer = useRestoreCustomer();
+  const saveTransaction = useSaveTransaction();
+  const removeTransaction = useDeleteTransaction();
+  const restoreTransaction = useRestoreTransaction();
   
-  const form = useForm<z.infer<typeof customerSchema>>({
+  const form = useForm<CustomerFormValues>({
     resolver: zodResolver(customerSchema),
     defaultValues: {
       pageNo: "",
@@ -84,263 +131,368 @@ const CustomersTab = () => {
     },
   });
 
-  const transactionForm = useForm<z.infer<typeof transactionSchema>>({
+  const transactionForm = useForm<TransactionFormValues>({
     resolver: zodResolver(transactionSchema),
     defaultValues: {
       amount: "",
       eventDate: "",
+      eventId: NO_EVENT,
       notes: "",
     },
   });
 
+  // Other tabs link to a customer's detail view via ?customer=<id>
+  useEffect(() => {
+    if (customerParam) {
+      setSelectedCustomerId(customerParam);
+    }
+  }, [customerParam]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedFilters(filters);
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  // Step back if a delete emptied the last page
+  useEffect(() => {
+    if (customersQuery.data && customersQuery.data.customers.length === 0) {
+      setCurrentPage((page) => (page > 1 ? page - 1 : page));
+    }
+  }, [customersQuery.data]);
+
+  useEffect(() => {
+    if (!customersQuery.error) return;
+    console.error("Error fetching customers:", customersQuery.error);
+    toast({
+      title: t("common.error"),
+      description: t("customers.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [customersQuery.error, t, toast]);
+
+  useEffect(() => {
+    if (isQueuedSelection) return;
+    if (selectedCustomerQuery.error || (selectedCustomerQuery.isSuccess && !selectedCustomerQuery.data)) {
+      toast({
+        title: t("common.error"),
+        description: t("customers.fetchOneFailed"),
+        variant: "destructive",
+      });
+    }
+  }, [isQueuedSelection, selectedCustomerQuery.error, selectedCustomerQuery.isSuccess, selectedCustomerQuery.data, t, toast]);
+
   useEffect(() => {
-    fetchCustomers();
-  }, []);
+    if (!transactionsQuery.error) return;
+    toast({
+      title: t("common.error"),
+      description: t("transactions.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [transactionsQuery.error, t, toast]);
 
-  const fetchCustomers = async () => {
+  // Opens the printable register for the customers matching the current filters
+  const handlePrintRegister = () => {
+    const params = new URLSearchParams([
+      ["ledger", ledgerId],
+      ...Object.entries(filters).filter(([, value]) => value.trim() !== ""),
+    ]);
+    window.open(`/print/register?${params.toString()}`, "_blank");
+  };
+
+  // Exports every customer matching the current filters, a chunk at a time
+  const handleExport = async (indianFormat: boolean) => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("customers")
-        .select("*")
-        .order("created_date", { ascending: false });
-
-      if (error) throw error;
-
-      const formattedCustomers: Customer[] = (data || []).map((customer) => ({
-        id: customer.id,
-        firstName: customer.first_name,
-        lastName: customer.last_name,
-        villageName: customer.village_name,
-        pendingAmount: customer.pending_amount,
-        createdDate: customer.created_date,
-        pageNo: customer.page_no,
-        notes: customer.notes || undefined,
-      }));
-
-      setCustomers(formattedCustomers);
+      setExportProgress(0);
+      const parts = [toCsvRow([
+        t("common.customerId"),
+        t("common.firstName"),
+        t("common.lastName"),
+        t("common.village"),
+        t("common.pageNo"),
+        t("customers.balance"),
+        t("common.notes"),
+      ])];
+
+      for await (const chunk of customerChunks(ledgerId, debouncedFilters, sort, EXPORT_CHUNK_SIZE)) {
+        chunk.forEach((customer) => {
+          parts.push(toCsvRow([
+            customer.id,
+            customer.firstName,
+            customer.lastName,
+            customer.villageName,
+            customer.pageNo,
+            formatCsvAmount(customer.pendingAmount, indianFormat),
+            customer.notes,
+          ]));
+        });
+
+        setExportProgress(parts.length - 1);
+        await yieldToBrowser();
+      }
+
+      downloadCsv(`customers-${new Date().toISOString().split('T')[0]}.csv`, parts);
+      toast({
+        title: t("common.success"),
+        description: t("customers.exported", { count: parts.length - 1 }),
+      });
     } catch (error) {
-      console.error("Error fetching customers:", error);
+      console.error("Error exporting customers:", error);
       toast({
-        title: "Error",
-        description: "Failed to fetch customers",
+        title: t("common.error"),
+        description: t("customers.exportFailed"),
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setExportProgress(null);
     }
   };
 
-  const onSubmit = async (values: z.infer<typeof customerSchema>) => {
+  const openCustomerDialog = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    form.reset({
+      pageNo: customer ? customer.pageNo.toString() : "",
+      firstName: customer?.firstName ?? "",
+      lastName: customer?.lastName ?? "",
+      villageName: customer?.villageName ?? "",
+      notes: customer?.notes ?? "",
+    });
+    setCreateDialogOpen(true);
+  };
+
+  const onSubmit = async (values: CustomerFormValues) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("No user found");
-
-      const { error } = await supabase.from("customers").insert({
-        user_id: user.id,
-        page_no: parseInt(values.pageNo),
-        first_name: values.firstName,
-        last_name: values.lastName,
-        village_name: values.villageName,
-        notes: values.notes || null,
+      const { queued } = await saveCustomer.mutateAsync({
+        id: editingCustomer?.id,
+        input: {
+          pageNo: parseInt(values.pageNo),
+          firstName: values.firstName,
+          lastName: values.lastName,
+          villageName: values.villageName,
+          notes: values.notes || null,
+        },
       });
 
-      if (error) throw error;
-
       toast({
-        title: "Success",
-        description: "Customer created successfully",
+        title: t("common.success"),
+        description: queued ? t("offline.queued") : editingCustomer ? t("customers.updated") : t("customers.created"),
       });
 
       form.reset();
       setCreateDialogOpen(false);
-      fetchCustomers();
+      setEditingCustomer(null);
     } catch (error) {
-      console.error("Error creating customer:", error);
+      console.error(editingCustomer ? "Error updating customer:" : "Error creating customer:", error);
       toast({
-        title: "Error",
-        description: "Failed to create customer",
+        title: t("common.error"),
+        description: editingCustomer ? t("customers.updateFailed") : t("customers.createFailed"),
         variant: "destructive",
       });
     }
   };
 
-  const handleCustomerClick = async (customer: Customer) => {
-    setSelectedCustomer(customer);
-    
-    const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
-      .eq('customer_id', customer.id)
-      .order('created_date', { ascending: false });
+  // Seed the detail query with the row we already have so the dialog opens without a flash
+  const handleCustomerClick = (customer: Customer) => {
+    queryClient.setQueryData(queryKeys.customer(customer.id), customer);
+    setSelectedCustomerId(customer.id);
+  };
 
-    if (error) {
-      toast({
-        title: "Error",
-        description: "Failed to fetch transactions",
-        variant: "destructive",
-      });
-      return;
+  const closeCustomerDetail = () => {
+    setSelectedCustomerId(null);
+    if (searchParams.has("customer")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("customer");
+      setSearchParams(next, { replace: true });
     }
+  };
 
-    setTransactions(data || []);
+  // Deletes only move rows to the trash, so the toast can offer to take them straight back
+  const undoAction = (restore: () => Promise<unknown>) => (
+    <ToastAction
+      altText={t("common.undo")}
+      onClick={async () => {
+        try {
+          await restore();
+        } catch (error) {
+          toast({
+            title: t("common.error"),
+            description: t("trash.restoreFailed"),
+            variant: "destructive",
+          });
+          return;
+        }
+        toast({ title: t("common.success"), description: t("trash.restored") });
+      }}
+    >
+      {t("common.undo")}
+    </ToastAction>
+  );
+
+  const toggleMergeSelection = (customer: Customer, checked: boolean) => {
+    setMergeSelection((current) =>
+      checked ? [...current, customer] : current.filter((selected) => selected.id !== customer.id)
+    );
   };
 
   const handleDeleteCustomer = async () => {
     if (!customerToDelete) return;
+    const id = customerToDelete.id;
 
-    const { error } = await supabase
-      .from('customers')
-      .delete()
-      .eq('id', customerToDelete.id);
-
-    if (error) {
+    try {
+      await removeCustomer.mutateAsync(id);
+    } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to delete customer",
+        title: t("common.error"),
+        description: t("customers.deleteFailed"),
         variant: "destructive",
       });
       return;
     }
 
     toast({
-      title: "Success",
-      description: "Customer deleted successfully",
+      title: t("common.success"),
+      description: t("customers.deleted"),
+      action: undoAction(() => restoreCustomer.mutateAsync(id)),
     });
+    setMergeSelection((current) => current.filter((selected) => selected.id !== id));
 
     setDeleteCustomerDialogOpen(false);
     setCustomerToDelete(null);
-    fetchCustomers();
   };
 
-  const onTransactionSubmit = async (values: z.infer<typeof transactionSchema>) => {
+  const onTransactionSubmit = async (values: TransactionFormValues) => {
     if (!selectedCustomer) return;
 
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    if (editingTransaction) {
-      const { error } = await supabase
-        .from('transactions')
-        .update({
+    let queued: boolean;
+    try {
+      const result = await saveTransaction.mutateAsync({
+        id: editingTransaction?.id,
+        customerId: selectedCustomer.id,
+        input: {
           amount: parseFloat(values.amount),
-          event_date: values.eventDate,
+          eventDate: values.eventDate,
+          eventId: values.eventId && values.eventId !== NO_EVENT ? values.eventId : null,
           notes: values.notes || null,
-        })
-        .eq('id', editingTransaction.id);
-
-      if (error) {
-        toast({
-          title: "Error",
-          description: "Failed to update transaction",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      toast({
-        title: "Success",
-        description: "Transaction updated successfully",
+        },
       });
-    } else {
-      const { error } = await supabase
-        .from('transactions')
-        .insert({
-          customer_id: selectedCustomer.id,
-          user_id: user.id,
-          amount: parseFloat(values.amount),
-          event_date: values.eventDate,
-          notes: values.notes || null,
-        });
-
-      if (error) {
-        toast({
-          title: "Error",
-          description: "Failed to create transaction",
-          variant: "destructive",
-        });
-        return;
-      }
-
+      queued = result.queued;
+    } catch (error) {
       toast({
-        title: "Success",
-        description: "Transaction created successfully",
+        title: t("common.error"),
+        description: editingTransaction ? t("transactions.updateFailed") : t("transactions.createFailed"),
+        variant: "destructive",
       });
+      return;
     }
 
+    toast({
+      title: t("common.success"),
+      description: queued ? t("offline.queued") : editingTransaction ? t("transactions.updated") : t("transactions.created"),
+    });
+
     setTransactionDialogOpen(false);
     setEditingTransaction(null);
     transactionForm.reset();
-    handleCustomerClick(selectedCustomer);
   };
 
   const handleDeleteTransaction = async () => {
-    if (!deleteTransactionId || !selectedCustomer) return;
-
-    const { error } = await supabase
-      .from('transactions')
-      .delete()
-      .eq('id', deleteTransactionId);
+    if (!deleteTransactionId) return;
+    const id = deleteTransactionId;
 
-    if (error) {
+    try {
+      await removeTransaction.mutateAsync(id);
+    } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to delete transaction",
+        title: t("common.error"),
+        description: t("transactions.deleteFailed"),
         variant: "destructive",
       });
       return;
     }
 
     toast({
-      title: "Success",
-      description: "Transaction deleted successfully",
+      title: t("common.success"),
+      description: t("transactions.deleted"),
+      action: undoAction(() => restoreTransaction.mutateAsync(id)),
     });
 
     setDeleteTransactionId(null);
-    handleCustomerClick(selectedCustomer);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(Math.abs(amount));
-  };
+  // Discarding a queued customer takes their queued moi with them, which could never sync
+  const handleDiscard = async (id: string) => {
+    const ids = [
+      id,
+      ...queuedEntries
+        .filter((entry) => entry.kind === "transaction" && entry.customerId === id)
+        .map((entry) => entry.id),
+    ];
+    for (const entryId of ids) {
+      await discard(entryId);
+    }
+    if (id === selectedCustomerId) {
+      closeCustomerDetail();
+    }
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric',
+    toast({
+      title: t("common.success"),
+      description: t("offline.discarded"),
     });
   };
 
-  const formatDateTime = (dateString: string) => {
-    return new Date(dateString).toLocaleString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const renderQueuedBadge = (entry: QueuedEntry) => (
+    <Badge variant={entry.error ? "destructive" : "secondary"} title={entry.error}>
+      {entry.error ? t("offline.failedBadge") : t("offline.pendingBadge")}
+    </Badge>
+  );
+
+  const amountValue = parseFloat(transactionForm.watch("amount"));
+  const amountPreview = !isNaN(amountValue) && amountValue !== 0 ? amountInWords(amountValue, language) : null;
+
+  const amounts = [
+    ...transactions.map((transaction) => Number(transaction.amount)),
+    ...queuedTransactions.map((entry) => entry.input.amount),
+  ];
+  const received = amounts
+    .filter((amount) => amount > 0)
+    .reduce((sum, amount) => sum + amount, 0);
+  const returned = amounts
+    .filter((amount) => amount < 0)
+    .reduce((sum, amount) => sum + Math.abs(amount), 0);
+  const outstanding = received - returned;
+
+  // Cycles a column through its natural order, the reverse, then back to newest first
+  const handleSort = (key: CustomerSortKey) => {
+    const naturalAscending = key !== "pending_amount";
+    if (key !== sortKey) {
+      setSortKey(key);
+      setAscending(naturalAscending);
+    } else if (ascending === naturalAscending) {
+      setAscending(!ascending);
+    } else {
+      setSortKey("created_date");
+      setAscending(false);
+    }
+    setCurrentPage(1);
   };
 
-  const filteredCustomers = customers.filter((customer) => {
+  const renderSortHeader = (key: CustomerSortKey, label: string) => {
+    const SortIcon = key !== sortKey ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
     return (
-      customer.id.toLowerCase().includes(filters.id.toLowerCase()) &&
-      customer.firstName.toLowerCase().includes(filters.firstName.toLowerCase()) &&
-      customer.lastName.toLowerCase().includes(filters.lastName.toLowerCase()) &&
-      customer.villageName.toLowerCase().includes(filters.villageName.toLowerCase()) &&
-      (filters.pageNo === "" || customer.pageNo.toString().includes(filters.pageNo))
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => handleSort(key)}>
+        {label}
+        <SortIcon className="ml-2 h-4 w-4" />
+      </Button>
     );
-  });
+  };
 
-  const totalPages = Math.ceil(filteredCustomers.length / itemsPerPage);
+  const total = totalCount ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedCustomers = filteredCustomers.slice(startIndex, startIndex + itemsPerPage);
 
-  if (loading) {
+  if (customersQuery.isLoading) {
     return (
       <Card>
         <CardHeader>
@@ -361,20 +513,77 @@ const CustomersTab = () => {
     <>
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle>Customer Management</CardTitle>
-          <Button onClick={() => setCreateDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Create Customer
-          </Button>
+          <CardTitle>{t("customers.title")}</CardTitle>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exportProgress !== null}>
+                  {exportProgress !== null ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  {exportProgress !== null ? t("common.exporting", { count: exportProgress }) : t("common.exportCsv")}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport(false)}>{t("common.plainNumbers")}</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport(true)}>{t("common.indianFormat")}</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" onClick={handlePrintRegister}>
+              <Printer className="h-4 w-4 mr-2" />
+              {t("customers.printRegister")}
+            </Button>
+            {canEdit && (
+              <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                {t("customers.import")}
+              </Button>
+            )}
+            {canAdd && (
+              <Button onClick={() => openCustomerDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                {t("customers.create")}
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="rounded-md border">
+          {canEdit && mergeSelection.length > 0 && (
+            <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 mb-4">
+              <span className="text-sm">{t("customers.selected", { count: mergeSelection.length })}</span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setMergeSelection([])}>
+                  <X className="h-4 w-4 mr-2" />
+                  {t("customers.clearSelection")}
+                </Button>
+                <Button size="sm" onClick={() => setMergeDialogOpen(true)} disabled={mergeSelection.length < 2}>
+                  <Merge className="h-4 w-4 mr-2" />
+                  {t("customers.merge")}
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className={`rounded-md border transition-opacity ${customersQuery.isFetching ? "opacity-60" : ""}`}>
             <Table>
               <TableHeader>
                 <TableRow>
+                  {canEdit && <TableHead className="w-10" />}
+                  <TableHead>{t("common.customerId")}</TableHead>
+                  <TableHead>{renderSortHeader("first_name", t("common.firstName"))}</TableHead>
+                  <TableHead>{renderSortHeader("last_name", t("common.lastName"))}</TableHead>
+                  <TableHead>{renderSortHeader("village_name", t("common.village"))}</TableHead>
+                  <TableHead>{renderSortHeader("page_no", t("common.pageNo"))}</TableHead>
+                  <TableHead>{renderSortHeader("pending_amount", t("customers.pendingAmount"))}</TableHead>
+                  <TableHead>{t("common.notes")}</TableHead>
+                  <TableHead>{t("customers.actions")}</TableHead>
+                </TableRow>
+                <TableRow>
+                  {canEdit && <TableHead />}
                   <TableHead>
                     <Input
-                      placeholder="Filter Customer ID..."
+                      placeholder={t("customers.filterId")}
                       value={filters.id}
                       onChange={(e) => setFilters({ ...filters, id: e.target.value })}
                       className="h-8"
@@ -382,7 +591,7 @@ const CustomersTab = () => {
                   </TableHead>
                   <TableHead>
                     <Input
-                      placeholder="Filter First Name..."
+                      placeholder={t("customers.filterFirstName")}
                       value={filters.firstName}
                       onChange={(e) => setFilters({ ...filters, firstName: e.target.value })}
                       className="h-8"
@@ -390,7 +599,7 @@ const CustomersTab = () => {
                   </TableHead>
                   <TableHead>
                     <Input
-                      placeholder="Filter Last Name..."
+                      placeholder={t("customers.filterLastName")}
                       value={filters.lastName}
                       onChange={(e) => setFilters({ ...filters, lastName: e.target.value })}
                       className="h-8"
@@ -398,7 +607,7 @@ const CustomersTab = () => {
                   </TableHead>
                   <TableHead>
                     <Input
-                      placeholder="Filter Village..."
+                      placeholder={t("customers.filterVillage")}
                       value={filters.villageName}
                       onChange={(e) => setFilters({ ...filters, villageName: e.target.value })}
                       className="h-8"
@@ -406,20 +615,69 @@ const CustomersTab = () => {
                   </TableHead>
                   <TableHead>
                     <Input
-                      placeholder="Filter Page No..."
+                      placeholder={t("customers.filterPageNo")}
                       value={filters.pageNo}
                       onChange={(e) => setFilters({ ...filters, pageNo: e.target.value })}
                       className="h-8"
                     />
                   </TableHead>
-                  <TableHead>Pending Amount</TableHead>
-                  <TableHead>Notes</TableHead>
-                  <TableHead>Actions</TableHead>
+                  <TableHead />
+                  <TableHead />
+                  <TableHead />
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedCustomers.map((customer) => (
-                  <TableRow key={customer.id}>
+                {currentPage === 1 && listedQueuedCustomers.map((entry) => (
+                  <TableRow
+                    key={entry.id}
+                    className="cursor-pointer text-muted-foreground"
+                    onClick={() => handleCustomerClick(toQueuedCustomer(entry))}
+                  >
+                    {canEdit && <TableCell />}
+                    <TableCell>{renderQueuedBadge(entry)}</TableCell>
+                    <TableCell>{entry.input.firstName}</TableCell>
+                    <TableCell>{entry.input.lastName}</TableCell>
+                    <TableCell>{entry.input.villageName}</TableCell>
+                    <TableCell>{entry.input.pageNo}</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell className="max-w-xs truncate">{entry.input.notes || "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleCustomerClick(toQueuedCustomer(entry));
+                            setTransactionDialogOpen(true);
+                          }}
+                        >
+                          {t("customers.addTransaction")}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDiscard(entry.id);
+                          }}
+                        >
+                          {t("offline.discard")}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {customers.map((customer) => (
+                  <TableRow key={customer.id} className={isRecent(customer.id) ? "animate-row-highlight" : undefined}>
+                    {canEdit && (
+                      <TableCell>
+                        <Checkbox
+                          checked={mergeSelection.some((selected) => selected.id === customer.id)}
+                          onCheckedChange={(checked) => toggleMergeSelection(customer, checked === true)}
+                          aria-label={t("customers.select", { name: `${customer.firstName} ${customer.lastName}`.trim() })}
+                        />
+                      </TableCell>
+                    )}
                     <TableCell 
                       className="cursor-pointer hover:bg-muted/50 font-medium"
                       onClick={() => handleCustomerClick(customer)}
@@ -455,8 +713,7 @@ const CustomersTab = () => {
                       onClick={() => handleCustomerClick(customer)}
                     >
                       <span className={customer.pendingAmount >= 0 ? "text-success" : "text-destructive"}>
-                        {customer.pendingAmount >= 0 ? "+" : "-"}
-                        {formatCurrency(customer.pendingAmount)}
+                        {formatSignedCurrency(customer.pendingAmount)}
                       </span>
                     </TableCell>
                     <TableCell 
@@ -467,27 +724,43 @@ const CustomersTab = () => {
                     </TableCell>
                     <TableCell>
                       <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setSelectedCustomer(customer);
-                            setTransactionDialogOpen(true);
-                          }}
-                        >
-                          Add Transaction
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setCustomerToDelete(customer);
-                            setDeleteCustomerDialogOpen(true);
-                          }}
-                        >
-                          Delete
-                        </Button>
+                        {canAdd && (
+                          <Button
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleCustomerClick(customer);
+                              setTransactionDialogOpen(true);
+                            }}
+                          >
+                            {t("customers.addTransaction")}
+                          </Button>
+                        )}
+                        {canEdit && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openCustomerDialog(customer);
+                              }}
+                            >
+                              {t("common.edit")}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setCustomerToDelete(customer);
+                                setDeleteCustomerDialogOpen(true);
+                              }}
+                            >
+                              {t("common.delete")}
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -497,9 +770,33 @@ const CustomersTab = () => {
           </div>
 
           <div className="flex items-center justify-between mt-4">
-            <p className="text-sm text-muted-foreground">
-              Showing {startIndex + 1} to {Math.min(startIndex + itemsPerPage, filteredCustomers.length)} of {filteredCustomers.length} customers
-            </p>
+            <div className="flex items-center gap-4">
+              <p className="text-sm text-muted-foreground">
+                {t("customers.showing", {
+                  from: total === 0 ? 0 : startIndex + 1,
+                  to: Math.min(startIndex + itemsPerPage, total),
+                  total,
+                })}
+              </p>
+              <Select
+                value={itemsPerPage.toString()}
+                onValueChange={(value) => {
+                  setItemsPerPage(parseInt(value));
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pageSizeOptions.map((size) => (
+                    <SelectItem key={size} value={size.toString()}>
+                      {t("customers.perPage", { size })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex gap-2">
               <Button
                 variant="outline"
@@ -511,14 +808,14 @@ const CustomersTab = () => {
               </Button>
               <div className="flex items-center gap-1">
                 <span className="text-sm px-3 py-1 bg-muted rounded">
-                  Page {currentPage} of {totalPages}
+                  {t("customers.pageOf", { page: currentPage, total: totalPages })}
                 </span>
               </div>
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                disabled={currentPage === totalPages}
+                disabled={currentPage >= totalPages}
               >
                 <ChevronRight className="h-4 w-4" />
               </Button>
@@ -527,71 +824,160 @@ const CustomersTab = () => {
         </CardContent>
       </Card>
 
-      <Dialog open={!!selectedCustomer} onOpenChange={() => setSelectedCustomer(null)}>
+      <Dialog open={!!selectedCustomer} onOpenChange={closeCustomerDetail}>
         <DialogContent className="max-w-3xl">
-          <DialogHeader>
-            <DialogTitle>Transaction History</DialogTitle>
+          <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
+            <DialogTitle>{t("transactions.title")}</DialogTitle>
+            {selectedCustomerQuery.data && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHistoryTarget({
+                  kind: "customer",
+                  id: selectedCustomerQuery.data.id,
+                  name: `${selectedCustomerQuery.data.firstName} ${selectedCustomerQuery.data.lastName}`,
+                })}
+              >
+                <History className="h-4 w-4 mr-2" />
+                {t("history.title")}
+              </Button>
+            )}
           </DialogHeader>
           <div className="space-y-4">
             {selectedCustomer && (
               <div className="grid grid-cols-2 gap-4 p-4 bg-muted rounded-lg">
                 <div>
-                  <p className="text-sm text-muted-foreground">Name</p>
+                  <p className="text-sm text-muted-foreground">{t("common.name")}</p>
                   <p className="font-medium">{selectedCustomer.firstName} {selectedCustomer.lastName}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Village</p>
+                  <p className="text-sm text-muted-foreground">{t("common.village")}</p>
                   <p className="font-medium">{selectedCustomer.villageName}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Page No</p>
+                  <p className="text-sm text-muted-foreground">{t("common.pageNo")}</p>
                   <p className="font-medium">{selectedCustomer.pageNo}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Pending Amount</p>
-                  <p className="font-medium">{formatCurrency(selectedCustomer.pendingAmount)}</p>
+                  <p className="text-sm text-muted-foreground">{t("customers.pendingAmount")}</p>
+                  <p className={`font-medium ${selectedCustomer.pendingAmount >= 0 ? "text-success" : "text-destructive"}`}>
+                    {formatSignedCurrency(selectedCustomer.pendingAmount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {amountInWords(Math.abs(selectedCustomer.pendingAmount), language)}
+                  </p>
+                </div>
+              </div>
+            )}
+            {selectedCustomer && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 border rounded-lg">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("common.received")}</p>
+                  <p className="font-medium text-success">{formatCurrency(received)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("common.returned")}</p>
+                  <p className="font-medium text-destructive">{formatCurrency(returned)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("customers.weOwe")}</p>
+                  <p className="font-medium">{outstanding > 0 ? formatCurrency(outstanding) : "-"}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("customers.suggestedReturn")}</p>
+                  <p className="font-semibold">
+                    {outstanding > 0 ? formatCurrency(suggestReturnAmount(outstanding, upliftRule)) : "-"}
+                  </p>
                 </div>
               </div>
             )}
             <ScrollArea className="h-[400px]">
               <div className="space-y-2">
-                {transactions.map((transaction) => (
+                {queuedTransactions.map((entry) => (
                   <div
-                    key={transaction.id}
-                    className="flex items-center justify-between p-4 border rounded-lg"
+                    key={entry.id}
+                    className="flex items-center justify-between p-4 border border-dashed rounded-lg"
                   >
                     <div className="flex-1">
-                      <p className="font-medium">{transaction.notes || "No notes"}</p>
+                      <p className="font-medium">{entry.input.notes || t("common.noNotes")}</p>
                       <div className="flex gap-4 text-sm text-muted-foreground">
-                        <span>Created: {formatDateTime(transaction.created_date)}</span>
-                        <span>Event: {formatDateTime(transaction.event_date)}</span>
+                        <span>{t("common.eventOn", { date: formatDate(entry.input.eventDate) })}</span>
                       </div>
+                      <p className="text-xs text-muted-foreground italic">
+                        {amountInWords(Math.abs(entry.input.amount), language)}
+                      </p>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Badge variant={transaction.amount > 0 ? "default" : "destructive"}>
-                        {transaction.amount > 0 ? "+" : "-"}
-                        {formatCurrency(Math.abs(transaction.amount))}
+                      {renderQueuedBadge(entry)}
+                      <Badge variant={entry.input.amount > 0 ? "default" : "destructive"}>
+                        {formatSignedCurrency(entry.input.amount)}
                       </Badge>
                       <Button
                         size="icon"
                         variant="ghost"
-                        onClick={() => {
-                          setEditingTransaction(transaction);
-                          transactionForm.setValue('amount', transaction.amount.toString());
-                          transactionForm.setValue('eventDate', transaction.event_date.split('T')[0]);
-                          transactionForm.setValue('notes', transaction.notes || '');
-                          setTransactionDialogOpen(true);
-                        }}
+                        title={t("offline.discard")}
+                        onClick={() => handleDiscard(entry.id)}
                       >
-                        <Edit className="w-4 h-4" />
+                        <Trash2 className="w-4 h-4" />
                       </Button>
+                    </div>
+                  </div>
+                ))}
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className={`flex items-center justify-between p-4 border rounded-lg ${
+                      isRecent(transaction.id) ? "animate-row-highlight" : ""
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium">{transaction.notes || t("common.noNotes")}</p>
+                      <div className="flex gap-4 text-sm text-muted-foreground">
+                        <span>{t("common.createdOn", { date: formatDateTime(transaction.created_date) })}</span>
+                        <span>{t("common.eventOn", { date: formatDateTime(transaction.event_date) })}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground italic">
+                        {amountInWords(Math.abs(transaction.amount), language)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={transaction.amount > 0 ? "default" : "destructive"}>
+                        {formatSignedCurrency(transaction.amount)}
+                      </Badge>
                       <Button
                         size="icon"
                         variant="ghost"
-                        onClick={() => setDeleteTransactionId(transaction.id)}
+                        onClick={() => setHistoryTarget({ kind: "transaction", id: transaction.id })}
+                        aria-label={t("history.title")}
+                        title={t("history.title")}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </Button>
+                      {canEdit && (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => {
+                              setEditingTransaction(transaction);
+                              transactionForm.setValue('amount', transaction.amount.toString());
+                              transactionForm.setValue('eventDate', transaction.event_date.split('T')[0]);
+                              transactionForm.setValue('eventId', transaction.event_id ?? NO_EVENT);
+                              transactionForm.setValue('notes', transaction.notes || '');
+                              setTransactionDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setDeleteTransactionId(transaction.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -610,43 +996,71 @@ const CustomersTab = () => {
       }}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{editingTransaction ? 'Edit Transaction' : 'Add New Transaction'}</DialogTitle>
+            <DialogTitle>{editingTransaction ? t("customers.editTransaction") : t("customers.newTransaction")}</DialogTitle>
           </DialogHeader>
           <form onSubmit={transactionForm.handleSubmit(onTransactionSubmit)} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount</Label>
+              <Label htmlFor="amount">{t("common.amount")}</Label>
               <Input 
                 id="amount"
                 type="number" 
                 step="0.01" 
-                placeholder="Enter amount (negative for debit)" 
+                placeholder={t("customers.amountPlaceholder")} 
                 {...transactionForm.register("amount")} 
               />
+              {amountPreview && (
+                <p className="text-sm text-muted-foreground italic">{amountPreview}</p>
+              )}
               {transactionForm.formState.errors.amount && (
-                <p className="text-sm text-destructive">{transactionForm.formState.errors.amount.message}</p>
+                <p className="text-sm text-destructive">{t(transactionForm.formState.errors.amount.message as TranslationKey)}</p>
               )}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="eventDate">Event Date</Label>
+              <Label htmlFor="eventId">{t("customers.eventOptional")}</Label>
+              <Select
+                value={transactionForm.watch("eventId")}
+                onValueChange={(value) => {
+                  transactionForm.setValue("eventId", value);
+                  const event = events.find((e) => e.id === value);
+                  if (event && !transactionForm.getValues("eventDate")) {
+                    transactionForm.setValue("eventDate", event.eventDate);
+                  }
+                }}
+              >
+                <SelectTrigger id="eventId">
+                  <SelectValue placeholder={t("customers.selectEvent")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EVENT}>{t("customers.noEvent")}</SelectItem>
+                  {events.map((event) => (
+                    <SelectItem key={event.id} value={event.id}>
+                      {event.name} ({formatDate(event.eventDate)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eventDate">{t("common.eventDate")}</Label>
               <Input 
                 id="eventDate"
                 type="date" 
                 {...transactionForm.register("eventDate")} 
               />
               {transactionForm.formState.errors.eventDate && (
-                <p className="text-sm text-destructive">{transactionForm.formState.errors.eventDate.message}</p>
+                <p className="text-sm text-destructive">{t(transactionForm.formState.errors.eventDate.message as TranslationKey)}</p>
               )}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Label htmlFor="notes">{t("customers.notesOptional")}</Label>
               <Textarea 
                 id="notes"
-                placeholder="Enter notes" 
+                placeholder={t("customers.notesPlaceholder")} 
                 {...transactionForm.register("notes")} 
                 rows={3}
               />
               {transactionForm.formState.errors.notes && (
-                <p className="text-sm text-destructive">{transactionForm.formState.errors.notes.message}</p>
+                <p className="text-sm text-destructive">{t(transactionForm.formState.errors.notes.message as TranslationKey)}</p>
               )}
             </div>
             <div className="flex gap-2 justify-end">
@@ -655,87 +1069,93 @@ const CustomersTab = () => {
                 setEditingTransaction(null);
                 transactionForm.reset();
               }}>
-                Cancel
+                {t("common.cancel")}
               </Button>
-              <Button type="submit">{editingTransaction ? 'Update' : 'Create'}</Button>
+              <Button type="submit">{editingTransaction ? t("common.update") : t("common.create")}</Button>
             </div>
           </form>
         </DialogContent>
       </Dialog>
 
-      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+      <Dialog open={createDialogOpen} onOpenChange={(open) => {
+        setCreateDialogOpen(open);
+        if (!open) {
+          setEditingCustomer(null);
+          form.reset();
+        }
+      }}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Create New Customer</DialogTitle>
+            <DialogTitle>{editingCustomer ? t("customers.editCustomer") : t("customers.newCustomer")}</DialogTitle>
           </DialogHeader>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="pageNo">Page Number</Label>
+              <Label htmlFor="pageNo">{t("customers.pageNumber")}</Label>
               <Input
                 id="pageNo"
                 type="number"
                 {...form.register("pageNo")}
-                placeholder="Enter page number"
+                placeholder={t("customers.pageNumberPlaceholder")}
               />
               {form.formState.errors.pageNo && (
-                <p className="text-sm text-destructive">{form.formState.errors.pageNo.message}</p>
+                <p className="text-sm text-destructive">{t(form.formState.errors.pageNo.message as TranslationKey)}</p>
               )}
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="firstName">First Name</Label>
+              <Label htmlFor="firstName">{t("common.firstName")}</Label>
               <Input
                 id="firstName"
                 {...form.register("firstName")}
-                placeholder="Enter first name"
+                placeholder={t("customers.firstNamePlaceholder")}
               />
               {form.formState.errors.firstName && (
-                <p className="text-sm text-destructive">{form.formState.errors.firstName.message}</p>
+                <p className="text-sm text-destructive">{t(form.formState.errors.firstName.message as TranslationKey)}</p>
               )}
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="lastName">Last Name</Label>
+              <Label htmlFor="lastName">{t("common.lastName")}</Label>
               <Input
                 id="lastName"
                 {...form.register("lastName")}
-                placeholder="Enter last name"
+                placeholder={t("customers.lastNamePlaceholder")}
               />
               {form.formState.errors.lastName && (
-                <p className="text-sm text-destructive">{form.formState.errors.lastName.message}</p>
+                <p className="text-sm text-destructive">{t(form.formState.errors.lastName.message as TranslationKey)}</p>
               )}
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="villageName">Village</Label>
+              <Label htmlFor="villageName">{t("common.village")}</Label>
               <Input
                 id="villageName"
                 {...form.register("villageName")}
-                placeholder="Enter village name"
+                placeholder={t("customers.villagePlaceholder")}
               />
               {form.formState.errors.villageName && (
-                <p className="text-sm text-destructive">{form.formState.errors.villageName.message}</p>
+                <p className="text-sm text-destructive">{t(form.formState.errors.villageName.message as TranslationKey)}</p>
               )}
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Label htmlFor="notes">{t("customers.notesOptional")}</Label>
               <Textarea
                 id="notes"
                 {...form.register("notes")}
-                placeholder="Enter any additional notes"
+                placeholder={t("customers.customerNotesPlaceholder")}
                 rows={3}
               />
               {form.formState.errors.notes && (
-                <p className="text-sm text-destructive">{form.formState.errors.notes.message}</p>
+                <p className="text-sm text-destructive">{t(form.formState.errors.notes.message as TranslationKey)}</p>
               )}
             </div>
 
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={() => setCreateDialogOpen(false)}>
-                Cancel
+                {t("common.cancel")}
               </Button>
-              <Button type="submit">Create Customer</Button>
+              <Button type="submit">{editingCustomer ? t("customers.updateCustomer") : t("customers.create")}</Button>
             </div>
           </form>
         </DialogContent>
@@ -744,15 +1164,16 @@ const CustomersTab = () => {
       <AlertDialog open={deleteCustomerDialogOpen} onOpenChange={setDeleteCustomerDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Customer</AlertDialogTitle>
+            <AlertDialogTitle>{t("customers.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {customerToDelete?.firstName} {customerToDelete?.lastName}? 
-              This will also delete all associated transactions. This action cannot be undone.
+              {t("customers.deleteConfirm", {
+                name: `${customerToDelete?.firstName ?? ""} ${customerToDelete?.lastName ?? ""}`.trim(),
+              })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDeleteCustomer}>Delete</AlertDialogAction>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteCustomer}>{t("common.delete")}</AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -760,17 +1181,35 @@ const CustomersTab = () => {
       <AlertDialog open={!!deleteTransactionId} onOpenChange={() => setDeleteTransactionId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Transaction</AlertDialogTitle>
+            <AlertDialogTitle>{t("transactions.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this transaction? This action cannot be undone.
+              {t("transactions.deleteConfirm")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDeleteTransaction}>Delete</AlertDialogAction>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteTransaction}>{t("common.delete")}</AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImported={() => invalidateLedger(queryClient)}
+      />
+
+      <HistoryDialog target={historyTarget} onClose={() => setHistoryTarget(null)} />
+
+      <MergeCustomersDialog
+        customers={mergeSelection}
+        open={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+        onMerged={(survivorId) => {
+          setMergeSelection([]);
+          setSelectedCustomerId(survivorId);
+        }}
+      />
     </>
   );
 };
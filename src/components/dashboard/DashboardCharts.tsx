@@ -0,0 +1,199 @@
+import { useEffect, useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useDashboardCharts } from "@/hooks/use-dashboard";
+import { DateBasis, DateRange } from "@/lib/periods";
+
+interface DashboardChartsProps {
+  range: DateRange;
+  basis: DateBasis;
+}
+
+interface MonthlyPoint {
+  month: string;
+  credit: number;
+  debit: number;
+  balance: number;
+}
+
+interface VillagePoint {
+  village: string;
+  credit: number;
+  debit: number;
+}
+
+interface AmountPoint {
+  amount: string;
+  entries: number;
+}
+
+const DashboardCharts = ({ range, basis }: DashboardChartsProps) => {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatCurrency, formatCompact, formatMonth } = useFormatters();
+  const { data, isLoading: loading, error } = useDashboardCharts(range, basis);
+
+  const { flowConfig, balanceConfig, amountConfig } = useMemo(() => ({
+    flowConfig: {
+      credit: { label: t("transactions.credit"), color: "hsl(var(--chart-2))" },
+      debit: { label: t("transactions.debit"), color: "hsl(var(--chart-3))" },
+    } satisfies ChartConfig,
+    balanceConfig: {
+      balance: { label: t("charts.balanceLabel"), color: "hsl(var(--chart-1))" },
+    } satisfies ChartConfig,
+    amountConfig: {
+      entries: { label: t("charts.entriesLabel"), color: "hsl(var(--chart-4))" },
+    } satisfies ChartConfig,
+  }), [t]);
+
+  useEffect(() => {
+    if (!error) return;
+    console.error("Error fetching chart data:", error);
+    toast({
+      title: t("common.error"),
+      description: t("charts.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [error, t, toast]);
+
+  const monthly = useMemo<MonthlyPoint[]>(() => (data?.monthly ?? []).map((row) => ({
+    month: formatMonth(row.month),
+    credit: Number(row.credit_amount),
+    debit: Number(row.debit_amount),
+    balance: Number(row.balance),
+  })), [data, formatMonth]);
+
+  // Every month of the period comes back, so the charts are empty when none of them has moi
+  const noMonthlyEntries = monthly.every((point) => point.credit === 0 && point.debit === 0);
+
+  const villages = useMemo<VillagePoint[]>(() => (data?.villages ?? []).map((row) => ({
+    village: row.village_name,
+    credit: Number(row.credit_amount),
+    debit: Number(row.debit_amount),
+  })), [data]);
+
+  const amounts = useMemo<AmountPoint[]>(() => (data?.amounts ?? [])
+    .map((row) => ({ value: Number(row.amount), entries: Number(row.entry_count) }))
+    .sort((a, b) => a.value - b.value)
+    .map((row) => ({ amount: formatCurrency(row.value), entries: row.entries })), [data, formatCurrency]);
+
+  const renderEmpty = () => (
+    <div className="flex h-[250px] items-center justify-center">
+      <p className="text-muted-foreground">{t("charts.empty")}</p>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="grid gap-6 lg:grid-cols-2">
+        {[...Array(4)].map((_, i) => (
+          <Card key={i}>
+            <CardHeader>
+              <Skeleton className="h-5 w-40" />
+            </CardHeader>
+            <CardContent>
+              <Skeleton className="h-[250px] w-full" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("charts.monthly")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {noMonthlyEntries ? renderEmpty() : (
+            <ChartContainer config={flowConfig} className="h-[250px] w-full aspect-auto">
+              <BarChart data={monthly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} tickFormatter={formatCompact} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="credit" fill="var(--color-credit)" radius={4} />
+                <Bar dataKey="debit" fill="var(--color-debit)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("charts.balance")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {noMonthlyEntries ? renderEmpty() : (
+            <ChartContainer config={balanceConfig} className="h-[250px] w-full aspect-auto">
+              <LineChart data={monthly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} tickFormatter={formatCompact} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="balance"
+                  type="monotone"
+                  stroke="var(--color-balance)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("charts.villages")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {villages.length === 0 ? renderEmpty() : (
+            <ChartContainer config={flowConfig} className="h-[250px] w-full aspect-auto">
+              <BarChart data={villages} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatCompact} />
+                <YAxis type="category" dataKey="village" tickLine={false} axisLine={false} width={90} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="credit" fill="var(--color-credit)" radius={4} />
+                <Bar dataKey="debit" fill="var(--color-debit)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("charts.amounts")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {amounts.length === 0 ? renderEmpty() : (
+            <ChartContainer config={amountConfig} className="h-[250px] w-full aspect-auto">
+              <BarChart data={amounts}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="amount" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="entries" fill="var(--color-entries)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DashboardCharts;
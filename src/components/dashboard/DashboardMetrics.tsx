@@ -1,197 +1,237 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { TrendingUp, Users, UserCheck, CreditCard, Wallet } from "lucide-react";
+import { TrendingUp, TrendingDown, Users, UserCheck, CreditCard, Wallet, ListOrdered } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
-import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedgerRealtime } from "@/hooks/use-ledger-realtime";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useDashboardMetrics } from "@/hooks/use-dashboard";
+import DashboardCharts from "@/components/dashboard/DashboardCharts";
+import { DateBasis, getPeriodRange, getTamilMonth, PeriodKey, periodKeys } from "@/lib/periods";
+
+interface MetricValue {
+  current: number;
+  previous: number;
+}
 
 interface MetricsData {
-  lastWeekAmount: number;
-  lastMonthAmount: number;
-  totalCustomers: number;
-  activeCustomers: number;
-  creditAmount: number;
-  debitAmount: number;
+  netAmount: MetricValue;
+  entryCount: MetricValue;
+  totalCustomers: MetricValue;
+  activeCustomers: MetricValue;
+  creditAmount: MetricValue;
+  debitAmount: MetricValue;
 }
 
 const DashboardMetrics = () => {
-  const [metrics, setMetrics] = useState<MetricsData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState<PeriodKey>("month");
+  const [basis, setBasis] = useState<DateBasis>("event_date");
+  const [customRange, setCustomRange] = useState({ from: "", to: "" });
+  const { lastChangeAt } = useLedgerRealtime();
+  // Periods run up to now, so move the window forward whenever new entries arrive
+  const range = useMemo(
+    () => getPeriodRange(period, customRange, lastChangeAt ? new Date(lastChangeAt) : undefined),
+    [period, customRange, lastChangeAt]
+  );
   const { toast } = useToast();
+  const { t, language } = useLanguage();
+  const { formatCurrency } = useFormatters();
+  const { data, isLoading: loading, error } = useDashboardMetrics(range, basis);
 
   useEffect(() => {
-    fetchMetrics();
-  }, []);
-
-  const fetchMetrics = async () => {
-    try {
-      setLoading(true);
-
-      // Fetch all customers
-      const { data: customers, error: customersError } = await supabase
-        .from('customers')
-        .select('*');
-
-      if (customersError) throw customersError;
-
-      // Fetch all transactions
-      const { data: transactions, error: transactionsError } = await supabase
-        .from('transactions')
-        .select('*');
-
-      if (transactionsError) throw transactionsError;
-
-      // Calculate metrics
-      const now = new Date();
-      const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-      // Last week and month amounts
-      const lastWeekAmount = transactions
-        ?.filter(t => new Date(t.created_date) >= oneWeekAgo)
-        .reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-
-      const lastMonthAmount = transactions
-        ?.filter(t => new Date(t.created_date) >= oneMonthAgo)
-        .reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-
-      // Total customers
-      const totalCustomers = customers?.length || 0;
-
-      // Active customers (customers with transactions in the last 30 days)
-      const activeCustomerIds = new Set(
-        transactions
-          ?.filter(t => new Date(t.created_date) >= oneMonthAgo)
-          .map(t => t.customer_id)
-      );
-      const activeCustomers = activeCustomerIds.size;
-
-      // Credit and debit amounts
-      const creditAmount = transactions
-        ?.filter(t => Number(t.amount) > 0)
-        .reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-
-      const debitAmount = transactions
-        ?.filter(t => Number(t.amount) < 0)
-        .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0) || 0;
-
-      setMetrics({
-        lastWeekAmount,
-        lastMonthAmount,
-        totalCustomers,
-        activeCustomers,
-        creditAmount,
-        debitAmount,
-      });
-    } catch (error) {
-      console.error("Error fetching metrics:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch dashboard metrics",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+    if (!error) return;
+    console.error("Error fetching metrics:", error);
+    toast({
+      title: t("common.error"),
+      description: t("metrics.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [error, t, toast]);
+
+  const metrics = useMemo<MetricsData | null>(() => {
+    if (!data) return null;
+
+    const pair = (current: number, previous: number) => ({
+      current: Number(current),
+      previous: Number(previous),
+    });
+
+    return {
+      netAmount: pair(data.net_amount, data.previous_net_amount),
+      entryCount: pair(data.entry_count, data.previous_entry_count),
+      totalCustomers: pair(data.total_customers, data.previous_total_customers),
+      activeCustomers: pair(data.active_customers, data.previous_active_customers),
+      creditAmount: pair(data.credit_amount, data.previous_credit_amount),
+      debitAmount: pair(data.debit_amount, data.previous_debit_amount),
+    };
+  }, [data]);
+
+  const formatChange = (value: MetricValue) => {
+    if (value.previous === 0) {
+      return value.current === 0 ? t("metrics.noChange") : t("metrics.nothingPrevious");
     }
+    const percent = ((value.current - value.previous) / Math.abs(value.previous)) * 100;
+    return t("metrics.change", { change: `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}` });
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const emptyValue: MetricValue = { current: 0, previous: 0 };
 
   const metricCards = [
     {
-      title: "Last Week Amount",
-      value: metrics?.lastWeekAmount ?? 0,
+      title: t("metrics.netAmount"),
+      value: metrics?.netAmount ?? emptyValue,
       icon: TrendingUp,
       color: "text-chart-1",
     },
     {
-      title: "Last Month Amount",
-      value: metrics?.lastMonthAmount ?? 0,
-      icon: TrendingUp,
+      title: t("metrics.entries"),
+      value: metrics?.entryCount ?? emptyValue,
+      icon: ListOrdered,
       color: "text-chart-1",
+      isCurrency: false,
     },
     {
-      title: "Total Customers",
-      value: metrics?.totalCustomers ?? 0,
+      title: t("metrics.totalCustomers"),
+      value: metrics?.totalCustomers ?? emptyValue,
       icon: Users,
       color: "text-chart-2",
       isCurrency: false,
     },
     {
-      title: "Active Customers",
-      value: metrics?.activeCustomers ?? 0,
+      title: t("metrics.activeCustomers"),
+      value: metrics?.activeCustomers ?? emptyValue,
       icon: UserCheck,
       color: "text-chart-2",
       isCurrency: false,
     },
     {
-      title: "Credit Amount",
-      value: metrics?.creditAmount ?? 0,
+      title: t("metrics.creditAmount"),
+      value: metrics?.creditAmount ?? emptyValue,
       icon: CreditCard,
       color: "text-success",
     },
     {
-      title: "Debit Amount",
-      value: metrics?.debitAmount ?? 0,
+      title: t("metrics.debitAmount"),
+      value: metrics?.debitAmount ?? emptyValue,
       icon: Wallet,
       color: "text-destructive",
     },
   ];
 
-  if (loading) {
-    return (
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {[...Array(6)].map((_, i) => (
-          <Card key={i}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <Skeleton className="h-4 w-32" />
-              <Skeleton className="h-5 w-5 rounded-full" />
-            </CardHeader>
-            <CardContent>
-              <Skeleton className="h-8 w-24" />
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-    );
-  }
+  const tamilMonth = getTamilMonth(new Date());
+  const periodDescription = period === "tamil_month"
+    ? t("metrics.tamilMonth", { month: language === "ta" ? tamilMonth.tamilName : tamilMonth.name })
+    : t(`period.${period}`).toLowerCase();
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-3xl font-bold tracking-tight">Dashboard Overview</h2>
-        <p className="text-muted-foreground">Your business metrics at a glance</p>
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">{t("metrics.title")}</h2>
+          <p className="text-muted-foreground">
+            {t("metrics.subtitle", { period: periodDescription })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="metricsPeriod">{t("metrics.period")}</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as PeriodKey)}>
+              <SelectTrigger id="metricsPeriod" className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periodKeys.map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {t(`period.${key}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {period === "custom" && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="metricsFrom">{t("metrics.from")}</Label>
+                <Input
+                  id="metricsFrom"
+                  type="date"
+                  value={customRange.from}
+                  onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="metricsTo">{t("metrics.to")}</Label>
+                <Input
+                  id="metricsTo"
+                  type="date"
+                  value={customRange.to}
+                  onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="metricsBasis">{t("metrics.dateBy")}</Label>
+            <Select value={basis} onValueChange={(value) => setBasis(value as DateBasis)}>
+              <SelectTrigger id="metricsBasis" className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="event_date">{t("transactions.eventDate")}</SelectItem>
+                <SelectItem value="created_date">{t("transactions.dateEntered")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
       </div>
-      
+
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {metricCards.map((card, index) => {
-          const Icon = card.icon;
-          return (
-            <Card key={index} className="hover:shadow-md transition-shadow">
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">
-                  {card.title}
-                </CardTitle>
-                <Icon className={`h-5 w-5 ${card.color}`} />
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">
-                  {card.isCurrency === false 
-                    ? card.value 
-                    : formatCurrency(card.value)
-                  }
-                </div>
-              </CardContent>
-            </Card>
-          );
-        })}
+        {loading
+          ? [...Array(6)].map((_, i) => (
+              <Card key={i}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <Skeleton className="h-4 w-32" />
+                  <Skeleton className="h-5 w-5 rounded-full" />
+                </CardHeader>
+                <CardContent>
+                  <Skeleton className="h-8 w-24" />
+                </CardContent>
+              </Card>
+            ))
+          : metricCards.map((card, index) => {
+              const Icon = card.icon;
+              const rising = card.value.current >= card.value.previous;
+              const TrendIcon = rising ? TrendingUp : TrendingDown;
+              return (
+                <Card key={index} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      {card.title}
+                    </CardTitle>
+                    <Icon className={`h-5 w-5 ${card.color}`} />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold">
+                      {card.isCurrency === false
+                        ? card.value.current
+                        : formatCurrency(card.value.current)
+                      }
+                    </div>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                      <TrendIcon className="h-3 w-3" />
+                      {formatChange(card.value)}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
       </div>
+
+      <DashboardCharts range={range} basis={basis} />
     </div>
   );
 };
@@ -0,0 +1,405 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Plus, UserRound } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomers, useSaveCustomer } from "@/hooks/use-customers";
+import { useSaveTransaction } from "@/hooks/use-transactions";
+import { useEvents } from "@/hooks/use-events";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useLedger } from "@/hooks/use-ledger";
+import { useLanguage } from "@/hooks/use-language";
+import { amountInWords } from "@/lib/amount-words";
+import { Customer, CustomerFilters, CustomerSort, emptyCustomerFilters, matchesCustomerFilters } from "@/lib/repository";
+import { QueuedCustomer, toQueuedCustomer } from "@/lib/offline-queue";
+import { customerSchema, CustomerFormValues, transactionSchema, TransactionFormValues } from "@/lib/schemas";
+import { TranslationKey } from "@/lib/i18n";
+
+interface RecordedEntry {
+  id: string;
+  customerName: string;
+  amount: number;
+  queued: boolean;
+}
+
+const NO_EVENT = "none";
+const MATCH_LIMIT = 8;
+const SORT: CustomerSort = { key: "first_name", ascending: true };
+
+// The helper's own calendar day; toISOString would give the UTC one before 5:30 am
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+/**
+ * The only screen a helper sees: find or add the giver, record the amount, next.
+ * Nothing already saved can be changed from here.
+ */
+const EntryScreen = () => {
+  const [filters, setFilters] = useState<CustomerFilters>(emptyCustomerFilters);
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerDialogOpen, setCustomerDialogOpen] = useState(false);
+  const [recorded, setRecorded] = useState<RecordedEntry[]>([]);
+  const { toast } = useToast();
+  const { t, language } = useLanguage();
+  const { formatSignedCurrency, formatDate } = useFormatters();
+  const { ledgerId } = useLedger();
+  const { entries: queuedEntries } = useOfflineQueue();
+  const customersQuery = useCustomers(debouncedFilters, SORT, 1, MATCH_LIMIT);
+  const saveCustomer = useSaveCustomer();
+  const saveTransaction = useSaveTransaction();
+  const { data: events = [] } = useEvents();
+
+  // Customers added at this counter while offline can still be picked
+  const queuedCustomers = queuedEntries
+    .filter((entry): entry is QueuedCustomer => entry.kind === "customer" && entry.ledgerId === ledgerId)
+    .map(toQueuedCustomer)
+    .filter((customer) => matchesCustomerFilters(customer, debouncedFilters));
+  const candidates = [...queuedCustomers, ...(customersQuery.data?.customers ?? [])];
+
+  const customerForm = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: { pageNo: "", firstName: "", lastName: "", villageName: "", notes: "" },
+  });
+
+  const transactionForm = useForm<TransactionFormValues>({
+    resolver: zodResolver(transactionSchema),
+    defaultValues: { amount: "", eventDate: today(), eventId: NO_EVENT, notes: "" },
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const openCustomerDialog = () => {
+    customerForm.reset({
+      pageNo: "",
+      firstName: filters.firstName,
+      lastName: "",
+      villageName: filters.villageName,
+      notes: "",
+    });
+    setCustomerDialogOpen(true);
+  };
+
+  const onCustomerSubmit = async (values: CustomerFormValues) => {
+    const input = {
+      pageNo: parseInt(values.pageNo),
+      firstName: values.firstName,
+      lastName: values.lastName,
+      villageName: values.villageName,
+      notes: values.notes || null,
+    };
+
+    try {
+      const { id, queued } = await saveCustomer.mutateAsync({ input });
+      toast({
+        title: t("common.success"),
+        description: queued ? t("offline.queued") : t("customers.created"),
+      });
+      setSelectedCustomer({
+        ...input,
+        id,
+        notes: input.notes || undefined,
+        pendingAmount: 0,
+        createdDate: new Date().toISOString(),
+      });
+      setCustomerDialogOpen(false);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      toast({
+        title: t("common.error"),
+        description: t("customers.createFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onTransactionSubmit = async (values: TransactionFormValues) => {
+    if (!selectedCustomer) return;
+
+    const amount = parseFloat(values.amount);
+    try {
+      const { queued } = await saveTransaction.mutateAsync({
+        customerId: selectedCustomer.id,
+        input: {
+          amount,
+          eventDate: values.eventDate,
+          eventId: values.eventId && values.eventId !== NO_EVENT ? values.eventId : null,
+          notes: values.notes || null,
+        },
+      });
+
+      toast({
+        title: t("common.success"),
+        description: queued ? t("offline.queued") : t("transactions.created"),
+      });
+      setRecorded((current) => [{
+        id: crypto.randomUUID(),
+        customerName: `${selectedCustomer.firstName} ${selectedCustomer.lastName}`,
+        amount,
+        queued,
+      }, ...current]);
+
+      // The event and date usually stay the same for the whole queue at the counter
+      transactionForm.reset({ ...values, amount: "", notes: "" });
+      setSelectedCustomer(null);
+      setFilters(emptyCustomerFilters);
+    } catch (error) {
+      console.error("Error creating transaction:", error);
+      toast({
+        title: t("common.error"),
+        description: t("transactions.createFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const amountValue = parseFloat(transactionForm.watch("amount"));
+  const amountPreview = !isNaN(amountValue) && amountValue !== 0 ? amountInWords(amountValue, language) : null;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr_1fr] max-w-5xl mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("entry.title")}</CardTitle>
+          <CardDescription>{t("entry.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {selectedCustomer ? (
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div className="flex items-center gap-3">
+                <UserRound className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">{selectedCustomer.firstName} {selectedCustomer.lastName}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedCustomer.villageName} · {t("common.pageNo")} {selectedCustomer.pageNo}
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setSelectedCustomer(null)}>
+                {t("entry.change")}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder={t("customers.filterFirstName")}
+                  value={filters.firstName}
+                  onChange={(e) => setFilters({ ...filters, firstName: e.target.value })}
+                  autoFocus
+                />
+                <Input
+                  placeholder={t("customers.filterVillage")}
+                  value={filters.villageName}
+                  onChange={(e) => setFilters({ ...filters, villageName: e.target.value })}
+                />
+                <Button variant="outline" onClick={openCustomerDialog} className="shrink-0">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t("entry.newCustomer")}
+                </Button>
+              </div>
+              <div className="rounded-md border divide-y">
+                {customersQuery.isLoading ? (
+                  <div className="p-3 space-y-2">
+                    <Skeleton className="h-5 w-1/2" />
+                    <Skeleton className="h-5 w-1/3" />
+                  </div>
+                ) : candidates.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">{t("entry.noMatches")}</p>
+                ) : (
+                  candidates.map((customer) => (
+                    <button
+                      key={customer.id}
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 p-3 text-left hover:bg-muted/50"
+                      onClick={() => setSelectedCustomer(customer)}
+                    >
+                      <span>
+                        <span className="font-medium">{customer.firstName} {customer.lastName}</span>
+                        <span className="text-sm text-muted-foreground"> · {customer.villageName}</span>
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {t("common.pageNo")} {customer.pageNo}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={transactionForm.handleSubmit(onTransactionSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="entry-event">{t("customers.eventOptional")}</Label>
+                <Select
+                  value={transactionForm.watch("eventId")}
+                  onValueChange={(value) => {
+                    transactionForm.setValue("eventId", value);
+                    const event = events.find((e) => e.id === value);
+                    if (event) {
+                      transactionForm.setValue("eventDate", event.eventDate);
+                    }
+                  }}
+                >
+                  <SelectTrigger id="entry-event">
+                    <SelectValue placeholder={t("customers.selectEvent")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EVENT}>{t("customers.noEvent")}</SelectItem>
+                    {events.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>
+                        {event.name} ({formatDate(event.eventDate)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entry-date">{t("common.eventDate")}</Label>
+                <Input id="entry-date" type="date" {...transactionForm.register("eventDate")} />
+                {transactionForm.formState.errors.eventDate && (
+                  <p className="text-sm text-destructive">{t(transactionForm.formState.errors.eventDate.message as TranslationKey)}</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-amount">{t("common.amount")}</Label>
+              <Input
+                id="entry-amount"
+                type="number"
+                step="0.01"
+                className="text-lg"
+                placeholder={t("customers.amountPlaceholder")}
+                {...transactionForm.register("amount")}
+              />
+              {amountPreview && (
+                <p className="text-sm text-muted-foreground italic">{amountPreview}</p>
+              )}
+              {transactionForm.formState.errors.amount && (
+                <p className="text-sm text-destructive">{t(transactionForm.formState.errors.amount.message as TranslationKey)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-notes">{t("customers.notesOptional")}</Label>
+              <Input id="entry-notes" placeholder={t("customers.notesPlaceholder")} {...transactionForm.register("notes")} />
+            </div>
+            <Button type="submit" className="w-full" disabled={!selectedCustomer || saveTransaction.isPending}>
+              {selectedCustomer ? t("entry.save") : t("entry.pickCustomer")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("entry.recorded")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recorded.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("entry.recordedEmpty")}</p>
+          ) : (
+            <ul className="space-y-2">
+              {recorded.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{entry.customerName}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {entry.queued && <Badge variant="secondary">{t("offline.pendingBadge")}</Badge>}
+                    <span className={entry.amount >= 0 ? "text-success" : "text-destructive"}>
+                      {formatSignedCurrency(entry.amount)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={customerDialogOpen} onOpenChange={setCustomerDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("customers.newCustomer")}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={customerForm.handleSubmit(onCustomerSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="entry-pageNo">{t("customers.pageNumber")}</Label>
+              <Input
+                id="entry-pageNo"
+                type="number"
+                {...customerForm.register("pageNo")}
+                placeholder={t("customers.pageNumberPlaceholder")}
+              />
+              {customerForm.formState.errors.pageNo && (
+                <p className="text-sm text-destructive">{t(customerForm.formState.errors.pageNo.message as TranslationKey)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-firstName">{t("common.firstName")}</Label>
+              <Input
+                id="entry-firstName"
+                {...customerForm.register("firstName")}
+                placeholder={t("customers.firstNamePlaceholder")}
+              />
+              {customerForm.formState.errors.firstName && (
+                <p className="text-sm text-destructive">{t(customerForm.formState.errors.firstName.message as TranslationKey)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-lastName">{t("common.lastName")}</Label>
+              <Input
+                id="entry-lastName"
+                {...customerForm.register("lastName")}
+                placeholder={t("customers.lastNamePlaceholder")}
+              />
+              {customerForm.formState.errors.lastName && (
+                <p className="text-sm text-destructive">{t(customerForm.formState.errors.lastName.message as TranslationKey)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-villageName">{t("common.village")}</Label>
+              <Input
+                id="entry-villageName"
+                {...customerForm.register("villageName")}
+                placeholder={t("customers.villagePlaceholder")}
+              />
+              {customerForm.formState.errors.villageName && (
+                <p className="text-sm text-destructive">{t(customerForm.formState.errors.villageName.message as TranslationKey)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-customerNotes">{t("customers.notesOptional")}</Label>
+              <Textarea
+                id="entry-customerNotes"
+                {...customerForm.register("notes")}
+                placeholder={t("customers.customerNotesPlaceholder")}
+                rows={2}
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setCustomerDialogOpen(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={saveCustomer.isPending}>{t("common.create")}</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EntryScreen;
@@ -0,0 +1,483 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Edit, Trash2, CalendarDays, Loader2, Printer } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Constants } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useDeleteEvent, useEvents, useEventTotals, useSaveEvent } from "@/hooks/use-events";
+import { useTransactions } from "@/hooks/use-transactions";
+import { amountInWords } from "@/lib/amount-words";
+import { defaultTransactionFilters, emptyEventTotals, EventType, MoiEvent } from "@/lib/repository";
+import { eventSchema, EventFormValues } from "@/lib/schemas";
+import { TranslationKey } from "@/lib/i18n";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+
+const eventTypeLabels: Record<EventType, TranslationKey> = {
+  wedding: "eventType.wedding",
+  engagement: "eventType.engagement",
+  house_warming: "eventType.house_warming",
+  ear_piercing: "eventType.ear_piercing",
+  puberty: "eventType.puberty",
+  naming: "eventType.naming",
+  funeral: "eventType.funeral",
+  other: "eventType.other",
+};
+
+const PAGE_SIZE = 50;
+
+const EventsTab = () => {
+  const [eventDialogOpen, setEventDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<MoiEvent | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<MoiEvent | null>(null);
+  const [eventToDelete, setEventToDelete] = useState<MoiEvent | null>(null);
+  const { toast } = useToast();
+  const { t, language } = useLanguage();
+  const { ledgerId, canEdit } = useLedger();
+  const { formatCurrency, formatSignedCurrency, formatDate } = useFormatters();
+
+  const eventsQuery = useEvents();
+  const totalsQuery = useEventTotals();
+  const eventTransactionsQuery = useTransactions(
+    { ...defaultTransactionFilters, eventId: selectedEvent?.id ?? "" },
+    PAGE_SIZE,
+    !!selectedEvent
+  );
+  const saveEvent = useSaveEvent();
+  const deleteEvent = useDeleteEvent();
+
+  const events = eventsQuery.data ?? [];
+  const totals = totalsQuery.data ?? {};
+  const eventTransactions = eventTransactionsQuery.data?.pages.flatMap((page) => page.transactions) ?? [];
+  const fetchError = eventsQuery.error ?? totalsQuery.error;
+
+  const form = useForm<EventFormValues>({
+    resolver: zodResolver(eventSchema),
+    defaultValues: {
+      name: "",
+      eventType: "wedding",
+      eventDate: "",
+      venue: "",
+      hostName: "",
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!fetchError) return;
+    console.error("Error fetching events:", fetchError);
+    toast({
+      title: t("common.error"),
+      description: t("events.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [fetchError, t, toast]);
+
+  useEffect(() => {
+    if (!eventTransactionsQuery.error) return;
+    toast({
+      title: t("common.error"),
+      description: t("transactions.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [eventTransactionsQuery.error, t, toast]);
+
+  const openEventDialog = (event: MoiEvent | null) => {
+    setEditingEvent(event);
+    form.reset({
+      name: event?.name ?? "",
+      eventType: event?.eventType ?? "wedding",
+      eventDate: event?.eventDate ?? "",
+      venue: event?.venue ?? "",
+      hostName: event?.hostName ?? "",
+      notes: event?.notes ?? "",
+    });
+    setEventDialogOpen(true);
+  };
+
+  const onSubmit = async (values: EventFormValues) => {
+    const input = {
+      name: values.name,
+      eventType: values.eventType,
+      eventDate: values.eventDate,
+      venue: values.venue || null,
+      hostName: values.hostName || null,
+      notes: values.notes || null,
+    };
+
+    try {
+      await saveEvent.mutateAsync({ id: editingEvent?.id, input });
+    } catch (error) {
+      console.error("Error saving event:", error);
+      toast({
+        title: t("common.error"),
+        description: editingEvent ? t("events.updateFailed") : t("events.createFailed"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: t("common.success"),
+      description: editingEvent ? t("events.updated") : t("events.created"),
+    });
+
+    setEventDialogOpen(false);
+    setEditingEvent(null);
+    form.reset();
+  };
+
+  const handleDeleteEvent = async () => {
+    if (!eventToDelete) return;
+
+    try {
+      await deleteEvent.mutateAsync(eventToDelete.id);
+    } catch (error) {
+      console.error("Error deleting event:", error);
+      toast({
+        title: t("common.error"),
+        description: t("events.deleteFailed"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: t("common.success"),
+      description: t("events.deleted"),
+    });
+
+    setEventToDelete(null);
+  };
+
+  if (eventsQuery.isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-8 w-48" />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectedTotals = selectedEvent ? totals[selectedEvent.id] ?? emptyEventTotals : emptyEventTotals;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{t("events.title")}</CardTitle>
+          {canEdit && (
+            <Button onClick={() => openEventDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t("events.create")}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarDays className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-muted-foreground">{t("events.empty")}</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("events.event")}</TableHead>
+                    <TableHead>{t("events.type")}</TableHead>
+                    <TableHead>{t("events.date")}</TableHead>
+                    <TableHead>{t("events.venue")}</TableHead>
+                    <TableHead>{t("events.host")}</TableHead>
+                    <TableHead className="text-right">{t("events.entries")}</TableHead>
+                    <TableHead className="text-right">{t("common.received")}</TableHead>
+                    <TableHead className="text-right">{t("common.returned")}</TableHead>
+                    <TableHead>{t("events.actions")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => {
+                    const eventTotals = totals[event.id] ?? emptyEventTotals;
+                    return (
+                      <TableRow
+                        key={event.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelectedEvent(event)}
+                      >
+                        <TableCell className="font-medium">{event.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{t(eventTypeLabels[event.eventType])}</Badge>
+                        </TableCell>
+                        <TableCell>{formatDate(event.eventDate)}</TableCell>
+                        <TableCell>{event.venue || "-"}</TableCell>
+                        <TableCell>{event.hostName || "-"}</TableCell>
+                        <TableCell className="text-right">{eventTotals.entries}</TableCell>
+                        <TableCell className="text-right text-success">
+                          {formatCurrency(eventTotals.received)}
+                        </TableCell>
+                        <TableCell className="text-right text-destructive">
+                          {formatCurrency(eventTotals.returned)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canEdit && (
+                              <>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openEventDialog(event);
+                                  }}
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEventToDelete(event);
+                                  }}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEvent} onOpenChange={() => setSelectedEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEvent?.name}</DialogTitle>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.open(`/print/register?ledger=${ledgerId}&event=${selectedEvent.id}`, "_blank")}
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                {t("events.printRegister")}
+              </Button>
+            </div>
+          )}
+          <div className="space-y-4">
+            {selectedEvent && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted rounded-lg">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("events.date")}</p>
+                  <p className="font-medium">{formatDate(selectedEvent.eventDate)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("events.entries")}</p>
+                  <p className="font-medium">{selectedTotals.entries}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("common.received")}</p>
+                  <p className="font-medium text-success">{formatCurrency(selectedTotals.received)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("common.returned")}</p>
+                  <p className="font-medium text-destructive">{formatCurrency(selectedTotals.returned)}</p>
+                </div>
+              </div>
+            )}
+            <ScrollArea className="h-[400px]">
+              <div className="space-y-2">
+                {eventTransactionsQuery.isLoading ? (
+                  [...Array(3)].map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+                ) : eventTransactions.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-12">{t("events.noEntries")}</p>
+                ) : (
+                  eventTransactions.map((transaction) => (
+                    <div
+                      key={transaction.id}
+                      className="flex items-center justify-between p-4 border rounded-lg"
+                    >
+                      <div className="flex-1">
+                        <p className="font-medium">
+                          {transaction.customers
+                            ? `${transaction.customers.first_name} ${transaction.customers.last_name}`
+                            : t("events.unknownCustomer")}
+                        </p>
+                        <div className="flex gap-4 text-sm text-muted-foreground">
+                          {transaction.customers && <span>{transaction.customers.village_name}</span>}
+                          <span>{transaction.notes || t("common.noNotes")}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground italic">
+                          {amountInWords(Math.abs(transaction.amount), language)}
+                        </p>
+                      </div>
+                      <Badge variant={transaction.amount > 0 ? "default" : "destructive"}>
+                        {formatSignedCurrency(transaction.amount)}
+                      </Badge>
+                    </div>
+                  ))
+                )}
+                {eventTransactionsQuery.hasNextPage && (
+                  <div className="flex justify-center py-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => eventTransactionsQuery.fetchNextPage()}
+                      disabled={eventTransactionsQuery.isFetchingNextPage}
+                    >
+                      {eventTransactionsQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {t("events.loadMore")}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={eventDialogOpen} onOpenChange={(open) => {
+        setEventDialogOpen(open);
+        if (!open) {
+          setEditingEvent(null);
+          form.reset();
+        }
+      }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? t("events.editEvent") : t("events.newEvent")}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="eventName">{t("events.name")}</Label>
+              <Input
+                id="eventName"
+                {...form.register("name")}
+                placeholder={t("events.namePlaceholder")}
+              />
+              {form.formState.errors.name && (
+                <p className="text-sm text-destructive">{t(form.formState.errors.name.message as TranslationKey)}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="eventType">{t("events.type")}</Label>
+              <Select
+                value={form.watch("eventType")}
+                onValueChange={(value) => form.setValue("eventType", value as EventType)}
+              >
+                <SelectTrigger id="eventType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Constants.public.Enums.event_type.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(eventTypeLabels[type])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="eventDateInput">{t("events.date")}</Label>
+              <Input
+                id="eventDateInput"
+                type="date"
+                {...form.register("eventDate")}
+              />
+              {form.formState.errors.eventDate && (
+                <p className="text-sm text-destructive">{t(form.formState.errors.eventDate.message as TranslationKey)}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="venue">{t("events.venueOptional")}</Label>
+              <Input
+                id="venue"
+                {...form.register("venue")}
+                placeholder={t("events.venuePlaceholder")}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="hostName">{t("events.hostOptional")}</Label>
+              <Input
+                id="hostName"
+                {...form.register("hostName")}
+                placeholder={t("events.hostPlaceholder")}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="eventNotes">{t("events.notesOptional")}</Label>
+              <Textarea
+                id="eventNotes"
+                {...form.register("notes")}
+                placeholder={t("events.notesPlaceholder")}
+                rows={3}
+              />
+              {form.formState.errors.notes && (
+                <p className="text-sm text-destructive">{t(form.formState.errors.notes.message as TranslationKey)}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setEventDialogOpen(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit">{editingEvent ? t("common.update") : t("events.create")}</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!eventToDelete} onOpenChange={() => setEventToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("events.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("events.deleteConfirm", { name: eventToDelete?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteEvent}>{t("common.delete")}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default EventsTab;
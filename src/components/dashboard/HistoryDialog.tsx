@@ -0,0 +1,157 @@
+import { useEffect } from "react";
+import { ArrowRight } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomerHistory, useTransactionHistory } from "@/hooks/use-history";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useLanguage } from "@/hooks/use-language";
+import { AuditRow, diffRows } from "@/lib/audit";
+import { AuditEntry } from "@/lib/repository";
+import { TranslationKey } from "@/lib/i18n";
+
+export type HistoryTarget =
+  | { kind: "customer"; id: string; name: string }
+  | { kind: "transaction"; id: string };
+
+interface HistoryDialogProps {
+  target: HistoryTarget | null;
+  onClose: () => void;
+}
+
+const fieldLabels: Record<string, TranslationKey> = {
+  page_no: "common.pageNo",
+  first_name: "common.firstName",
+  last_name: "common.lastName",
+  village_name: "common.village",
+  amount: "common.amount",
+  event_date: "common.eventDate",
+  event_id: "history.event",
+  customer_id: "history.customerField",
+  notes: "common.notes",
+};
+
+const operationBadges: Record<string, { label: TranslationKey; variant: "default" | "secondary" | "destructive" }> = {
+  INSERT: { label: "history.created", variant: "default" },
+  UPDATE: { label: "history.changed", variant: "secondary" },
+  DELETE: { label: "history.deleted", variant: "destructive" },
+  RESTORE: { label: "history.restored", variant: "secondary" },
+  PURGE: { label: "history.purged", variant: "destructive" },
+  MERGE: { label: "history.merged", variant: "secondary" },
+};
+
+const HistoryDialog = ({ target, onClose }: HistoryDialogProps) => {
+  const customerHistory = useCustomerHistory(target?.kind === "customer" ? target.id : null);
+  const transactionHistory = useTransactionHistory(target?.kind === "transaction" ? target.id : null);
+  const history = target?.kind === "customer" ? customerHistory : transactionHistory;
+  const entries = history.data ?? [];
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatSignedCurrency, formatDate, formatDateTime } = useFormatters();
+
+  useEffect(() => {
+    if (!history.error) return;
+    console.error("Error fetching history:", history.error);
+    toast({
+      title: t("common.error"),
+      description: t("history.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [history.error, t, toast]);
+
+  const formatValue = (field: string, value: Json | undefined) => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "amount") return formatSignedCurrency(Number(value));
+    if (field === "event_date") return formatDate(String(value));
+    // Ids mean little on their own; a short prefix is enough to tell two apart
+    if (field.endsWith("_id")) return String(value).slice(0, 8);
+    return String(value);
+  };
+
+  // In a customer's history, say which of their moi an entry is about
+  const describe = (entry: AuditEntry) => {
+    if (entry.operation === "MERGE") {
+      const duplicate = entry.old_row as AuditRow | null;
+      return t("history.mergedFrom", { name: `${duplicate?.first_name ?? ""} ${duplicate?.last_name ?? ""}`.trim() });
+    }
+    if (entry.table_name === "customers") return t("history.customer");
+    const row = (entry.new_row ?? entry.old_row) as AuditRow | null;
+    return t("history.transaction", { amount: formatSignedCurrency(Number(row?.amount ?? 0)) });
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {target?.kind === "customer"
+              ? t("history.customerTitle", { name: target.name })
+              : t("history.transactionTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("history.description")}</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[28rem] pr-4">
+          {history.isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">{t("history.empty")}</p>
+          ) : (
+            <ol className="space-y-3">
+              {entries.map((entry) => {
+                const badge = operationBadges[entry.operation];
+                const changes = diffRows(entry.old_row, entry.new_row);
+
+                return (
+                  <li key={entry.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={badge.variant}>{t(badge.label)}</Badge>
+                        {target?.kind === "customer" && <span className="font-medium">{describe(entry)}</span>}
+                      </div>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDateTime(entry.changed_at)} ·{" "}
+                        {entry.changed_by_email ?? t("history.unknownUser")}
+                      </span>
+                    </div>
+                    {changes.length > 0 && (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                        {changes.map((change) => (
+                          <div key={change.field} className="contents">
+                            <dt className="text-muted-foreground">
+                              {fieldLabels[change.field] ? t(fieldLabels[change.field]) : change.field}
+                            </dt>
+                            <dd className="flex flex-wrap items-center gap-2">
+                              {entry.operation === "UPDATE" || entry.operation === "MERGE" ? (
+                                <>
+                                  <span className="line-through text-muted-foreground">
+                                    {formatValue(change.field, change.before)}
+                                  </span>
+                                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                                  <span>{formatValue(change.field, change.after)}</span>
+                                </>
+                              ) : (
+                                <span>{formatValue(change.field, change.after ?? change.before)}</span>
+                              )}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HistoryDialog;
@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { readSheet } from "read-excel-file/browser";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLedger } from "@/hooks/use-ledger";
+import { useLanguage } from "@/hooks/use-language";
+import { useFormatters } from "@/hooks/use-formatters";
+import { parseCsv } from "@/lib/csv";
+import {
+  createCustomers,
+  createTransactions,
+  CustomerInput,
+  customerIdentityChunks,
+  findSavedCustomers,
+  findSavedTransactions,
+  TransactionInput,
+} from "@/lib/repository";
+import {
+  buildImportRows,
+  cellToString,
+  ColumnMapping,
+  customerMatchKey,
+  guessMapping,
+  ImportCell,
+  importRowId,
+  ImportField,
+  importFields,
+  ImportRow,
+} from "@/lib/moi-import";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type Step = "upload" | "map" | "preview" | "importing" | "done";
+
+/** An import that was started but did not finish, kept so the same notebook can pick up where it stopped */
+interface ImportBatch {
+  id: string;
+  fileName: string;
+  startedAt: string;
+}
+
+const batchKey = (ledgerId: string) => `moi.import.${ledgerId}`;
+
+function readUnfinishedBatch(ledgerId: string): ImportBatch | null {
+  try {
+    const stored = localStorage.getItem(batchKey(ledgerId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+const BATCH_SIZE = 500;
+const PREVIEW_LIMIT = 200;
+const NOT_MAPPED = "none";
+
+const ImportDialog = ({ open, onOpenChange, onImported }: ImportDialogProps) => {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [data, setData] = useState<ImportCell[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultEventDate, setDefaultEventDate] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [existingCustomers, setExistingCustomers] = useState<Map<string, string>>(new Map());
+  const [mergeDuplicates, setMergeDuplicates] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // The batch every id of this import is derived from, and an unfinished one for the same file name
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [unfinishedBatch, setUnfinishedBatch] = useState<ImportBatch | null>(null);
+  const [resumeBatch, setResumeBatch] = useState(true);
+  const [result, setResult] = useState({ customers: 0, transactions: 0, alreadySaved: 0, inTrash: 0 });
+  const { toast } = useToast();
+  const { ledgerId } = useLedger();
+  const { t } = useLanguage();
+  const { formatDateTime } = useFormatters();
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setData([]);
+    setMapping(null);
+    setDefaultEventDate("");
+    setRows([]);
+    setExistingCustomers(new Map());
+    setMergeDuplicates(true);
+    setBatch(null);
+    setUnfinishedBatch(null);
+    setResumeBatch(true);
+    setProgress(0);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (step === "importing") return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setWorking(true);
+      const sheet: ImportCell[][] = file.name.toLowerCase().endsWith(".xlsx")
+        ? ((await readSheet(file)) as ImportCell[][])
+        : parseCsv(await file.text());
+
+      if (sheet.length < 2) {
+        toast({
+          title: t("common.error"),
+          description: t("import.needsHeader"),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const headerRow = sheet[0].map(cellToString);
+      const unfinished = readUnfinishedBatch(ledgerId);
+      setUnfinishedBatch(unfinished?.fileName === file.name ? unfinished : null);
+      setResumeBatch(true);
+      setBatch(null);
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setData(sheet.slice(1));
+      setMapping(guessMapping(headerRow));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast({
+        title: t("common.error"),
+        description: t("import.readFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Loads every existing customer's identity so repeated families attach to the same record
+  const fetchExistingCustomers = async () => {
+    const existing = new Map<string, string>();
+    for await (const chunk of customerIdentityChunks(ledgerId, 1000)) {
+      chunk.forEach((customer) => {
+        const key = customerMatchKey(customer.first_name, customer.last_name, customer.village_name);
+        if (!existing.has(key)) existing.set(key, customer.id);
+      });
+    }
+    return existing;
+  };
+
+  const handlePreview = async () => {
+    if (!mapping) return;
+
+    try {
+      setWorking(true);
+      setRows(buildImportRows(data, mapping, defaultEventDate));
+      setExistingCustomers(await fetchExistingCustomers());
+      setStep("preview");
+    } catch (error) {
+      console.error("Error checking for duplicates:", error);
+      toast({
+        title: t("common.error"),
+        description: t("import.duplicateCheckFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const rowKey = (row: ImportRow) => customerMatchKey(row.firstName, row.lastName, row.villageName);
+
+  // Which rows start a new customer, reuse one from earlier in the file, or match an existing one
+  const seenKeys = new Set<string>();
+  const rowStatus = new Map<ImportRow, "new" | "file_duplicate" | "existing">();
+  validRows.forEach((row) => {
+    const key = rowKey(row);
+    if (mergeDuplicates && existingCustomers.has(key)) {
+      rowStatus.set(row, "existing");
+    } else if (mergeDuplicates && seenKeys.has(key)) {
+      rowStatus.set(row, "file_duplicate");
+    } else {
+      rowStatus.set(row, "new");
+      seenKeys.add(key);
+    }
+  });
+
+  const counts = {
+    errors: rows.length - validRows.length,
+    newCustomers: [...rowStatus.values()].filter((status) => status === "new").length,
+    existing: [...rowStatus.values()].filter((status) => status === "existing").length,
+    transactions: validRows.filter((row) => row.amount !== null).length,
+  };
+
+  const handleImport = async () => {
+    try {
+      setStep("importing");
+      setProgress(0);
+
+      // A retry keeps its batch, so the rows it already saved get the same ids and are found below
+      const current = batch
+        ?? (unfinishedBatch && resumeBatch ? unfinishedBatch : null)
+        ?? { id: crypto.randomUUID(), fileName, startedAt: new Date().toISOString() };
+      setBatch(current);
+      localStorage.setItem(batchKey(ledgerId), JSON.stringify(current));
+
+      const customerIds = new Map<string, string>(mergeDuplicates ? existingCustomers : []);
+      const newCustomers: (CustomerInput & { id: string })[] = [];
+      const newTransactions: (TransactionInput & { id: string; customerId: string })[] = [];
+
+      for (const row of validRows) {
+        const key = rowKey(row);
+        let customerId = mergeDuplicates ? customerIds.get(key) : undefined;
+
+        if (!customerId) {
+          customerId = await importRowId(`${ledgerId}|${current.id}|${mergeDuplicates ? key : row.line}`);
+          customerIds.set(key, customerId);
+          newCustomers.push({
+            id: customerId,
+            pageNo: parseInt(row.pageNo),
+            firstName: row.firstName,
+            lastName: row.lastName,
+            villageName: row.villageName,
+            notes: row.amount === null ? row.notes || null : null,
+          });
+        }
+
+        if (row.amount !== null) {
+          newTransactions.push({
+            id: await importRowId(`${ledgerId}|${current.id}|${row.line}`),
+            customerId,
+            amount: row.amount,
+            eventDate: row.eventDate,
+            eventId: null,
+            notes: row.notes || null,
+          });
+        }
+      }
+
+      // What an earlier attempt saved is left as it is, and nothing is added under a trashed customer
+      const savedCustomers = await findSavedCustomers(newCustomers.map((customer) => customer.id));
+      const savedTransactions = await findSavedTransactions(newTransactions.map((transaction) => transaction.id));
+      const customersToSave = newCustomers.filter((customer) => !savedCustomers.has(customer.id));
+      const transactionsToSave = newTransactions.filter(
+        (transaction) => !savedTransactions.has(transaction.id) && !savedCustomers.get(transaction.customerId)
+      );
+      const skipped = [
+        ...newCustomers.map((customer) => savedCustomers.get(customer.id)),
+        ...newTransactions.map((transaction) =>
+          savedCustomers.get(transaction.customerId) || savedTransactions.get(transaction.id)
+        ),
+      ];
+
+      const total = customersToSave.length + transactionsToSave.length;
+      let done = 0;
+
+      for (let i = 0; i < customersToSave.length; i += BATCH_SIZE) {
+        const chunk = customersToSave.slice(i, i + BATCH_SIZE);
+        await createCustomers(ledgerId, chunk);
+        done += chunk.length;
+        setProgress(Math.round((done / total) * 100));
+      }
+
+      for (let i = 0; i < transactionsToSave.length; i += BATCH_SIZE) {
+        const chunk = transactionsToSave.slice(i, i + BATCH_SIZE);
+        await createTransactions(ledgerId, chunk);
+        done += chunk.length;
+        setProgress(Math.round((done / total) * 100));
+      }
+
+      localStorage.removeItem(batchKey(ledgerId));
+      setResult({
+        customers: customersToSave.length,
+        transactions: transactionsToSave.length,
+        alreadySaved: skipped.filter((trashed) => trashed === false).length,
+        inTrash: skipped.filter((trashed) => trashed === true).length,
+      });
+      setStep("done");
+      onImported();
+    } catch (error) {
+      console.error("Error importing:", error);
+      toast({
+        title: t("common.error"),
+        description: t("import.failedPartway"),
+        variant: "destructive",
+      });
+
+      // Customers saved before the failure now match as existing in the preview
+      try {
+        setExistingCustomers(await fetchExistingCustomers());
+      } catch (fetchError) {
+        console.error("Error checking for duplicates:", fetchError);
+      }
+      setStep("preview");
+      onImported();
+    }
+  };
+
+  const missingRequired = mapping
+    ? importFields.filter((field) => field.required && mapping[field.key] === null)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t("import.title")}</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && t("import.uploadHint")}
+            {step === "map" && t("import.mapHint", { file: fileName })}
+            {step === "preview" && t("import.previewHint")}
+            {step === "importing" && t("import.importingHint")}
+            {step === "done" && t("import.doneHint")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col items-center justify-center gap-4 border-2 border-dashed rounded-lg py-12">
+            {working ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="h-8 w-8 text-muted-foreground" />
+            )}
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="max-w-xs"
+              disabled={working}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </div>
+        )}
+
+        {step === "map" && mapping && (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {importFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label>
+                    {t(field.label)}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] === null ? NOT_MAPPED : String(mapping[field.key])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key as ImportField]: value === NOT_MAPPED ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>{t("import.notMapped")}</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || t("import.column", { number: index + 1 })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label htmlFor="importDefaultDate">{t("import.defaultDate")}</Label>
+                <Input
+                  id="importDefaultDate"
+                  type="date"
+                  value={defaultEventDate}
+                  onChange={(e) => setDefaultEventDate(e.target.value)}
+                />
+              </div>
+            </div>
+            {unfinishedBatch && (
+              <div className="flex items-start gap-2">
+                <Switch id="resumeBatch" checked={resumeBatch} onCheckedChange={setResumeBatch} />
+                <div className="space-y-1">
+                  <Label htmlFor="resumeBatch">
+                    {t("import.resume", { file: unfinishedBatch.fileName, date: formatDateTime(unfinishedBatch.startedAt) })}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">{t("import.resumeHint")}</p>
+                </div>
+              </div>
+            )}
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                {t("import.missingColumns", { fields: missingRequired.map((field) => t(field.label)).join(", ") })}
+              </p>
+            )}
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={reset}>{t("common.back")}</Button>
+              <Button onClick={handlePreview} disabled={working || missingRequired.length > 0}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("import.previewRows", { count: data.length })}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{t("import.validRows", { count: validRows.length })}</Badge>
+              <Badge variant={counts.errors > 0 ? "destructive" : "secondary"}>
+                {t("import.withErrors", { count: counts.errors })}
+              </Badge>
+              <Badge variant="secondary">{t("import.newCustomers", { count: counts.newCustomers })}</Badge>
+              <Badge variant="secondary">{t("import.matchExisting", { count: counts.existing })}</Badge>
+              <Badge variant="secondary">{t("import.transactions", { count: counts.transactions })}</Badge>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="mergeDuplicates" checked={mergeDuplicates} onCheckedChange={setMergeDuplicates} />
+              <Label htmlFor="mergeDuplicates">{t("import.mergeDuplicates")}</Label>
+            </div>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("import.line")}</TableHead>
+                    <TableHead>{t("common.pageNo")}</TableHead>
+                    <TableHead>{t("common.name")}</TableHead>
+                    <TableHead>{t("common.village")}</TableHead>
+                    <TableHead className="text-right">{t("common.amount")}</TableHead>
+                    <TableHead>{t("import.date")}</TableHead>
+                    <TableHead>{t("import.status")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                    const status = rowStatus.get(row);
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.pageNo}</TableCell>
+                        <TableCell>{row.firstName} {row.lastName}</TableCell>
+                        <TableCell>{row.villageName}</TableCell>
+                        <TableCell className="text-right">{row.amount ?? "-"}</TableCell>
+                        <TableCell>{row.eventDate ?? "-"}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <span className="text-sm text-destructive">{row.errors.map((error) => t(error)).join("; ")}</span>
+                          ) : status === "existing" ? (
+                            <Badge variant="outline">{t("import.existingCustomer")}</Badge>
+                          ) : status === "file_duplicate" ? (
+                            <Badge variant="outline">{t("import.repeatInFile")}</Badge>
+                          ) : (
+                            <Badge>{t("import.new")}</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="text-sm text-muted-foreground">
+                {t("import.showingFirst", { limit: PREVIEW_LIMIT, total: rows.length })}
+              </p>
+            )}
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setStep("map")}>{t("common.back")}</Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                {t("import.importRows", { count: validRows.length })}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-4 py-8">
+            <Progress value={progress} />
+            <p className="text-center text-sm text-muted-foreground">{t("import.saved", { progress })}</p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-4">
+            <p>{t("import.added", { customers: result.customers, transactions: result.transactions })}</p>
+            {result.alreadySaved > 0 && (
+              <p className="text-sm text-muted-foreground">{t("import.alreadySaved", { count: result.alreadySaved })}</p>
+            )}
+            {result.inTrash > 0 && (
+              <p className="text-sm text-destructive">{t("import.inTrash", { count: result.inTrash })}</p>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>{t("import.close")}</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useMergeCustomers } from "@/hooks/use-customers";
+import { Customer } from "@/lib/repository";
+import { TranslationKey } from "@/lib/i18n";
+
+type MergeField = "pageNo" | "firstName" | "lastName" | "villageName" | "notes";
+
+const mergeFields: { field: MergeField; label: TranslationKey }[] = [
+  { field: "pageNo", label: "common.pageNo" },
+  { field: "firstName", label: "common.firstName" },
+  { field: "lastName", label: "common.lastName" },
+  { field: "villageName", label: "common.village" },
+  { field: "notes", label: "common.notes" },
+];
+
+const valueOf = (customer: Customer, field: MergeField) => String(customer[field] ?? "");
+
+interface MergeCustomersDialogProps {
+  customers: Customer[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: (survivorId: string) => void;
+}
+
+const MergeCustomersDialog = ({ customers, open, onOpenChange, onMerged }: MergeCustomersDialogProps) => {
+  const [survivorId, setSurvivorId] = useState("");
+  // Which customer each field's value is taken from; unset fields follow the survivor
+  const [sources, setSources] = useState<Partial<Record<MergeField, string>>>({});
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatSignedCurrency } = useFormatters();
+  const mergeCustomers = useMergeCustomers();
+
+  // The customer entered first usually holds the fullest record, so it survives by default
+  useEffect(() => {
+    if (!open || customers.length === 0) return;
+    const oldest = customers.reduce((first, customer) => (customer.createdDate < first.createdDate ? customer : first));
+    setSurvivorId(oldest.id);
+    setSources({});
+  }, [open, customers]);
+
+  const byId = new Map(customers.map((customer) => [customer.id, customer]));
+  const survivor = byId.get(survivorId);
+  const sourceFor = (field: MergeField) => byId.get(sources[field] ?? survivorId) ?? survivor;
+  const combinedBalance = customers.reduce((sum, customer) => sum + customer.pendingAmount, 0);
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id);
+    setSources({});
+  };
+
+  const handleMerge = async () => {
+    if (!survivor) return;
+    const value = (field: MergeField) => valueOf(sourceFor(field), field);
+
+    try {
+      await mergeCustomers.mutateAsync({
+        survivorId: survivor.id,
+        duplicateIds: customers.filter((customer) => customer.id !== survivor.id).map((customer) => customer.id),
+        input: {
+          pageNo: parseInt(value("pageNo")),
+          firstName: value("firstName"),
+          lastName: value("lastName"),
+          villageName: value("villageName"),
+          notes: value("notes") || null,
+        },
+      });
+    } catch (error) {
+      console.error("Error merging customers:", error);
+      toast({
+        title: t("common.error"),
+        description: t("merge.failed"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: t("common.success"),
+      description: t("merge.merged", { count: customers.length }),
+    });
+    onOpenChange(false);
+    onMerged(survivor.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("merge.title", { count: customers.length })}</DialogTitle>
+          <DialogDescription>{t("merge.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>{t("merge.survivor")}</Label>
+          <RadioGroup value={survivorId} onValueChange={handleSurvivorChange}>
+            {customers.map((customer) => (
+              <Label
+                key={customer.id}
+                htmlFor={`merge-survivor-${customer.id}`}
+                className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer"
+              >
+                <RadioGroupItem id={`merge-survivor-${customer.id}`} value={customer.id} />
+                <span className="flex-1">
+                  <span className="font-medium">{customer.firstName} {customer.lastName}</span>
+                  <span className="block text-sm text-muted-foreground">
+                    {customer.villageName} · {t("common.pageNo")} {customer.pageNo}
+                  </span>
+                </span>
+                <span className={customer.pendingAmount >= 0 ? "text-success" : "text-destructive"}>
+                  {formatSignedCurrency(customer.pendingAmount)}
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-4">
+          <Label>{t("merge.fields")}</Label>
+          {mergeFields.map(({ field, label }) => {
+            // Offer each distinct value once, from the first customer that has it
+            const options = customers.filter(
+              (customer, index) => customers.findIndex((other) => valueOf(other, field) === valueOf(customer, field)) === index
+            );
+            const source = sourceFor(field);
+            const selected = source ? options.find((option) => valueOf(option, field) === valueOf(source, field)) : undefined;
+
+            return (
+              <div key={field} className="grid grid-cols-[8rem_1fr] items-start gap-3 text-sm">
+                <span className="text-muted-foreground pt-0.5">{t(label)}</span>
+                {options.length === 1 ? (
+                  <span>{valueOf(options[0], field) || "—"}</span>
+                ) : (
+                  <RadioGroup
+                    value={selected?.id ?? ""}
+                    onValueChange={(id) => setSources((current) => ({ ...current, [field]: id }))}
+                  >
+                    {options.map((option) => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <RadioGroupItem id={`merge-${field}-${option.id}`} value={option.id} />
+                        <Label htmlFor={`merge-${field}-${option.id}`} className="font-normal">
+                          {valueOf(option, field) || "—"}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {t("merge.summary", { balance: formatSignedCurrency(combinedBalance) })}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleMerge} disabled={!survivor || mergeCustomers.isPending}>
+            {mergeCustomers.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("merge.confirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeCustomersDialog;
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useUpliftRule } from "@/hooks/use-uplift-rule";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useOutstanding } from "@/hooks/use-reciprocity";
+import { suggestReturnAmount } from "@/lib/reciprocity";
+import { ReciprocitySortKey } from "@/lib/repository";
+import { TranslationKey } from "@/lib/i18n";
+
+const columns: { key: ReciprocitySortKey; label: TranslationKey; numeric?: boolean }[] = [
+  { key: "last_name", label: "reciprocity.family" },
+  { key: "village_name", label: "common.village" },
+  { key: "page_no", label: "common.pageNo" },
+  { key: "received", label: "common.received", numeric: true },
+  { key: "returned", label: "common.returned", numeric: true },
+  { key: "outstanding", label: "customers.weOwe", numeric: true },
+  { key: "last_received_date", label: "reciprocity.lastReceived" },
+];
+
+const PAGE_SIZE = 50;
+
+const ReciprocityTab = () => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [sortKey, setSortKey] = useState<ReciprocitySortKey>("outstanding");
+  const [ascending, setAscending] = useState(false);
+  const { rule, setRule } = useUpliftRule();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatCurrency, formatDate } = useFormatters();
+  const [, setSearchParams] = useSearchParams();
+
+  const outstandingQuery = useOutstanding({ key: sortKey, ascending }, currentPage, PAGE_SIZE);
+  const rows = outstandingQuery.data?.families ?? [];
+  const familyCount = outstandingQuery.data?.count ?? 0;
+  const totalOwed = outstandingQuery.data?.totalOutstanding ?? 0;
+  const totalPages = Math.max(1, Math.ceil(familyCount / PAGE_SIZE));
+
+  // Step back if returns paid off everyone on the last page
+  useEffect(() => {
+    if (outstandingQuery.data && outstandingQuery.data.families.length === 0) {
+      setCurrentPage((page) => (page > 1 ? page - 1 : page));
+    }
+  }, [outstandingQuery.data]);
+
+  useEffect(() => {
+    if (!outstandingQuery.error) return;
+    console.error("Error fetching reciprocity:", outstandingQuery.error);
+    toast({
+      title: t("common.error"),
+      description: t("reciprocity.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [outstandingQuery.error, t, toast]);
+
+  const handleSort = (key: ReciprocitySortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === "last_name" || key === "village_name" || key === "page_no");
+    }
+    setCurrentPage(1);
+  };
+
+  const openCustomer = (customerId: string) => {
+    setSearchParams({ tab: "customers", customer: customerId });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div>
+          <CardTitle>{t("reciprocity.title")}</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t("reciprocity.summary", { count: familyCount, amount: formatCurrency(totalOwed) })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4 p-4 bg-muted rounded-lg">
+          <div className="space-y-1">
+            <Label htmlFor="upliftPercent">{t("reciprocity.upliftPercent")}</Label>
+            <Input
+              id="upliftPercent"
+              type="number"
+              min={0}
+              className="h-8 w-24"
+              value={rule.percent}
+              onChange={(e) => setRule({ ...rule, percent: Number(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="upliftRoundTo">{t("reciprocity.roundTo")}</Label>
+            <Input
+              id="upliftRoundTo"
+              type="number"
+              min={1}
+              className="h-8 w-24"
+              value={rule.roundTo}
+              onChange={(e) => setRule({ ...rule, roundTo: Number(e.target.value) || 1 })}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-1">
+            <Switch
+              id="upliftAddOne"
+              checked={rule.addOne}
+              onCheckedChange={(checked) => setRule({ ...rule, addOne: checked })}
+            />
+            <Label htmlFor="upliftAddOne">{t("reciprocity.addOne")}</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {outstandingQuery.isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">{t("reciprocity.empty")}</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {columns.map((column) => {
+                    const SortIcon = column.key !== sortKey ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+                    return (
+                      <TableHead key={column.key} className={column.numeric ? "text-right" : undefined}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="-ml-3 h-8"
+                          onClick={() => handleSort(column.key)}
+                        >
+                          {t(column.label)}
+                          <SortIcon className="ml-2 h-4 w-4" />
+                        </Button>
+                      </TableHead>
+                    );
+                  })}
+                  <TableHead className="text-right">{t("customers.suggestedReturn")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow
+                    key={row.customerId}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => openCustomer(row.customerId)}
+                  >
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.villageName}</TableCell>
+                    <TableCell>{row.pageNo}</TableCell>
+                    <TableCell className="text-right text-success">{formatCurrency(row.received)}</TableCell>
+                    <TableCell className="text-right text-destructive">{formatCurrency(row.returned)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(row.outstanding)}</TableCell>
+                    <TableCell>{row.lastReceivedDate ? formatDate(row.lastReceivedDate) : "-"}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(suggestReturnAmount(row.outstanding, rule))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {totalPages > 1 && (
+          <div className="flex justify-end gap-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+              disabled={currentPage === 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm px-3 py-1 bg-muted rounded">
+              {t("customers.pageOf", { page: currentPage, total: totalPages })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+              disabled={currentPage >= totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReciprocityTab;
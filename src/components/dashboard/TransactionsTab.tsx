@@ -1,138 +1,392 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowDownLeft, ArrowUpRight } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ArrowDownLeft, ArrowUpRight, ArrowDown, ArrowUp, Download, Loader2, Search, X } from "lucide-react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+import { useFormatters } from "@/hooks/use-formatters";
+import { useLedgerRealtime } from "@/hooks/use-ledger-realtime";
+import { useTransactions } from "@/hooks/use-transactions";
+import { TransactionFilters, TransactionSortKey, transactionChunks, transactionSortKeys } from "@/lib/repository";
+import { downloadCsv, formatCsvAmount, toCsvRow, yieldToBrowser } from "@/lib/csv";
 
-interface Transaction {
-  id: string;
-  notes: string | null;
-  amount: number;
-  created_date: string;
-  event_date: string;
-  customer_id: string;
-}
+const filterParams = ["q", "from", "to", "type", "min", "max", "event", "sort", "dir"];
+
+const PAGE_SIZE = 50;
+const EXPORT_CHUNK_SIZE = 1000;
+
+// A hand-edited or stale bookmark falls back to the default order
+const readSort = (value: string | null): TransactionSortKey =>
+  transactionSortKeys.find((key) => key === value) ?? "created_date";
 
 const TransactionsTab = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatSignedCurrency, formatDateTime } = useFormatters();
+  const { isRecent } = useLedgerRealtime();
+  const { ledgerId } = useLedger();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Filters live in the URL so a filtered view can be bookmarked
+  const filters = useMemo<TransactionFilters>(() => ({
+    q: searchParams.get("q") ?? "",
+    from: searchParams.get("from") ?? "",
+    to: searchParams.get("to") ?? "",
+    type: searchParams.get("type") ?? "all",
+    min: searchParams.get("min") ?? "",
+    max: searchParams.get("max") ?? "",
+    eventId: searchParams.get("event") ?? "",
+    sort: readSort(searchParams.get("sort")),
+    ascending: searchParams.get("dir") === "asc",
+  }), [searchParams]);
+  const hasFilters = filterParams.some((key) => searchParams.has(key));
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedFilters(filters);
+      scrollRef.current?.scrollTo({ top: 0 });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const {
+    data,
+    error,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useTransactions(debouncedFilters, PAGE_SIZE);
+  const transactions = data?.pages.flatMap((page) => page.transactions) ?? [];
+  const totalCount = data?.pages[0]?.count ?? null;
+  const hasMore = !!hasNextPage && !isFetchNextPageError;
 
   useEffect(() => {
-    fetchTransactions();
-  }, []);
+    if (!error) return;
+    console.error("Error fetching transactions:", error);
+    toast({
+      title: t("common.error"),
+      description: isFetchNextPageError ? t("transactions.loadMoreFailed") : t("transactions.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [error, isFetchNextPageError, t, toast]);
+
+  const virtualizer = useVirtualizer({
+    count: transactions.length + (hasMore ? 1 : 0),
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 132,
+    overscan: 8,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems.length > 0 ? virtualItems[virtualItems.length - 1].index : -1;
 
-  const fetchTransactions = async () => {
+  useEffect(() => {
+    if (hasMore && !isFetchingNextPage && lastVisibleIndex >= transactions.length - 1) {
+      fetchNextPage();
+    }
+  }, [lastVisibleIndex, hasMore, isFetchingNextPage, transactions.length, fetchNextPage]);
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const clearFilters = () => {
+    const next = new URLSearchParams(searchParams);
+    filterParams.forEach((key) => next.delete(key));
+    setSearchParams(next, { replace: true });
+  };
+
+  // Exports every transaction matching the current filters, a chunk at a time
+  const handleExport = async (indianFormat: boolean) => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .order('created_date', { ascending: false });
+      setExportProgress(0);
+      const parts = [toCsvRow([
+        t("common.firstName"),
+        t("common.lastName"),
+        t("common.village"),
+        t("common.pageNo"),
+        t("common.amount"),
+        t("common.eventDate"),
+        t("common.notes"),
+      ])];
+
+      for await (const chunk of transactionChunks(ledgerId, debouncedFilters, EXPORT_CHUNK_SIZE)) {
+        chunk.forEach((transaction) => {
+          parts.push(toCsvRow([
+            transaction.customers?.first_name,
+            transaction.customers?.last_name,
+            transaction.customers?.village_name,
+            transaction.customers?.page_no,
+            formatCsvAmount(Number(transaction.amount), indianFormat),
+            transaction.event_date.split('T')[0],
+            transaction.notes,
+          ]));
+        });
 
-      if (error) throw error;
+        setExportProgress(parts.length - 1);
+        await yieldToBrowser();
+      }
 
-      setTransactions(data || []);
+      downloadCsv(`transactions-${new Date().toISOString().split('T')[0]}.csv`, parts);
+      toast({
+        title: t("common.success"),
+        description: t("transactions.exported", { count: parts.length - 1 }),
+      });
     } catch (error) {
-      console.error("Error fetching transactions:", error);
+      console.error("Error exporting transactions:", error);
       toast({
-        title: "Error",
-        description: "Failed to fetch transactions",
+        title: t("common.error"),
+        description: t("transactions.exportFailed"),
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setExportProgress(null);
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(Math.abs(amount));
+  // The filters stay in the URL, so coming back to the log finds it as it was left
+  const openCustomer = (customerId: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("tab", "customers");
+    next.set("customer", customerId);
+    setSearchParams(next);
   };
 
-  const formatDateTime = (dateString: string) => {
-    return new Date(dateString).toLocaleString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
-  if (loading) {
-    return (
-      <Card>
-        <CardHeader>
-          <Skeleton className="h-8 w-48" />
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {[...Array(5)].map((_, i) => (
-              <Skeleton key={i} className="h-24 w-full" />
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Transaction History</CardTitle>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-row items-center justify-between">
+          <CardTitle>{t("transactions.title")}</CardTitle>
+          <div className="flex gap-2">
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="h-4 w-4 mr-2" />
+                {t("transactions.clearFilters")}
+              </Button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={exportProgress !== null}>
+                  {exportProgress !== null ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  {exportProgress !== null ? t("common.exporting", { count: exportProgress }) : t("common.exportCsv")}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport(false)}>{t("common.plainNumbers")}</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport(true)}>{t("common.indianFormat")}</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1 lg:col-span-2">
+            <Label htmlFor="transactionSearch">{t("transactions.search")}</Label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="transactionSearch"
+                placeholder={t("transactions.searchPlaceholder")}
+                className="pl-8"
+                value={filters.q}
+                onChange={(e) => updateFilter("q", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="transactionFrom">{t("transactions.from")}</Label>
+            <Input
+              id="transactionFrom"
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="transactionTo">{t("transactions.to")}</Label>
+            <Input
+              id="transactionTo"
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>{t("transactions.type")}</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={filters.type}
+              onValueChange={(value) => updateFilter("type", value === "all" ? "" : value)}
+            >
+              <ToggleGroupItem value="all">{t("transactions.all")}</ToggleGroupItem>
+              <ToggleGroupItem value="credit">{t("transactions.credit")}</ToggleGroupItem>
+              <ToggleGroupItem value="debit">{t("transactions.debit")}</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <div className="space-y-1">
+            <Label>{t("transactions.amountRange")}</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder={t("transactions.min")}
+                value={filters.min}
+                onChange={(e) => updateFilter("min", e.target.value)}
+              />
+              <Input
+                type="number"
+                min={0}
+                placeholder={t("transactions.max")}
+                value={filters.max}
+                onChange={(e) => updateFilter("max", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="transactionSort">{t("transactions.sortBy")}</Label>
+            <div className="flex gap-2">
+              <Select
+                value={filters.sort}
+                onValueChange={(value) => updateFilter("sort", value === "created_date" ? "" : value)}
+              >
+                <SelectTrigger id="transactionSort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="created_date">{t("transactions.dateEntered")}</SelectItem>
+                  <SelectItem value="event_date">{t("transactions.eventDate")}</SelectItem>
+                  <SelectItem value="amount">{t("common.amount")}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => updateFilter("dir", filters.ascending ? "" : "asc")}
+              >
+                {filters.ascending ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
-        <ScrollArea className="h-[600px] pr-4">
-          <div className="space-y-4">
-            {transactions.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-muted-foreground">No transactions found</p>
-              </div>
-            ) : (
-              transactions.map((transaction) => (
-                <div
-                  key={transaction.id}
-                  className="flex items-start gap-4 p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
-                >
-                  <div className={`p-2 rounded-full ${
-                    transaction.amount >= 0 ? "bg-success/10" : "bg-destructive/10"
-                  }`}>
-                    {transaction.amount >= 0 ? (
-                      <ArrowDownLeft className="h-5 w-5 text-success" />
+        <div ref={scrollRef} className="h-[600px] overflow-y-auto pr-4">
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-24 w-full" />
+              ))}
+            </div>
+          ) : transactions.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">{t("transactions.empty")}</p>
+            </div>
+          ) : (
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualItems.map((virtualItem) => {
+                const transaction = transactions[virtualItem.index];
+                return (
+                  <div
+                    key={transaction?.id ?? "loader"}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute left-0 top-0 w-full pb-4"
+                    style={{ transform: `translateY(${virtualItem.start}px)` }}
+                  >
+                    {!transaction ? (
+                      <div className="flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {t("transactions.loadingMore")}
+                      </div>
                     ) : (
-                      <ArrowUpRight className="h-5 w-5 text-destructive" />
-                    )}
-                  </div>
+                        <div
+                          role="button"
+                          tabIndex={0}
+                          onClick={() => openCustomer(transaction.customer_id)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") openCustomer(transaction.customer_id);
+                          }}
+                          className={`flex items-start gap-4 p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors cursor-pointer ${
+                            isRecent(transaction.id) ? "animate-row-highlight" : ""
+                          }`}
+                        >
+                          <div className={`p-2 rounded-full ${
+                            transaction.amount >= 0 ? "bg-success/10" : "bg-destructive/10"
+                          }`}>
+                            {transaction.amount >= 0 ? (
+                              <ArrowDownLeft className="h-5 w-5 text-success" />
+                            ) : (
+                              <ArrowUpRight className="h-5 w-5 text-destructive" />
+                            )}
+                          </div>
                   
-                  <div className="flex-1 space-y-1">
-                    <p className="text-sm font-medium leading-none">{transaction.notes || "No notes"}</p>
-                    <div className="text-sm text-muted-foreground space-y-1">
-                      <p>Created: {formatDateTime(transaction.created_date)}</p>
-                      <p>Event: {formatDateTime(transaction.event_date)}</p>
-                    </div>
-                  </div>
+                          <div className="flex-1 space-y-1">
+                            {transaction.customers && (
+                              <div className="flex flex-wrap items-baseline gap-x-2">
+                                <p className="font-semibold leading-none">
+                                  {transaction.customers.first_name} {transaction.customers.last_name}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  {t("transactions.villagePage", {
+                                    village: transaction.customers.village_name,
+                                    page: transaction.customers.page_no,
+                                  })}
+                                </p>
+                              </div>
+                            )}
+                            <p className="text-sm font-medium leading-none">{transaction.notes || t("common.noNotes")}</p>
+                            <div className="text-sm text-muted-foreground space-y-1">
+                              <p>{t("common.createdOn", { date: formatDateTime(transaction.created_date) })}</p>
+                              <p>{t("common.eventOn", { date: formatDateTime(transaction.event_date) })}</p>
+                            </div>
+                          </div>
                   
-                  <div className="text-right">
-                    <Badge
-                      variant={transaction.amount >= 0 ? "default" : "destructive"}
-                      className="text-base font-semibold"
-                    >
-                      {transaction.amount >= 0 ? "+" : "-"}
-                      {formatCurrency(transaction.amount)}
-                    </Badge>
+                          <div className="text-right">
+                            <Badge
+                              variant={transaction.amount >= 0 ? "default" : "destructive"}
+                              className="text-base font-semibold"
+                            >
+                              {formatSignedCurrency(transaction.amount)}
+                            </Badge>
+                          </div>
+                        </div>
+                    )}
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </ScrollArea>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {!isLoading && totalCount !== null && (
+          <p className="text-sm text-muted-foreground mt-4">
+            {t("transactions.showing", { count: transactions.length, total: totalCount })}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useFormatters } from "@/hooks/use-formatters";
+import { usePurgeCustomer, useRestoreCustomer, useTrashedCustomers } from "@/hooks/use-customers";
+import { usePurgeTransaction, useRestoreTransaction, useTrashedTransactions } from "@/hooks/use-transactions";
+import { TransactionWithCustomer, TrashedCustomer } from "@/lib/repository";
+
+type PurgeTarget =
+  | { kind: "customer"; customer: TrashedCustomer }
+  | { kind: "transaction"; transaction: TransactionWithCustomer };
+
+const TrashTab = () => {
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatSignedCurrency, formatDate, formatDateTime } = useFormatters();
+
+  const customersQuery = useTrashedCustomers();
+  const transactionsQuery = useTrashedTransactions();
+  const restoreCustomer = useRestoreCustomer();
+  const purgeCustomer = usePurgeCustomer();
+  const restoreTransaction = useRestoreTransaction();
+  const purgeTransaction = usePurgeTransaction();
+
+  const customers = customersQuery.data ?? [];
+  const transactions = transactionsQuery.data ?? [];
+  const fetchError = customersQuery.error ?? transactionsQuery.error;
+
+  useEffect(() => {
+    if (!fetchError) return;
+    console.error("Error fetching trash:", fetchError);
+    toast({
+      title: t("common.error"),
+      description: t("trash.fetchFailed"),
+      variant: "destructive",
+    });
+  }, [fetchError, t, toast]);
+
+  const handleRestore = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      toast({
+        title: t("common.error"),
+        description: t("trash.restoreFailed"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: t("common.success"), description: t("trash.restored") });
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return;
+
+    try {
+      if (purgeTarget.kind === "customer") {
+        await purgeCustomer.mutateAsync(purgeTarget.customer.id);
+      } else {
+        await purgeTransaction.mutateAsync(purgeTarget.transaction.id);
+      }
+    } catch (error) {
+      console.error("Error purging from trash:", error);
+      toast({
+        title: t("common.error"),
+        description: t("trash.purgeFailed"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: t("common.success"), description: t("trash.purged") });
+    setPurgeTarget(null);
+  };
+
+  const actions = (onRestore: () => void, onPurge: () => void) => (
+    <div className="flex justify-end gap-2">
+      <Button variant="outline" size="sm" onClick={onRestore}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        {t("trash.restore")}
+      </Button>
+      <Button variant="ghost" size="sm" className="text-destructive" onClick={onPurge}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        {t("trash.purge")}
+      </Button>
+    </div>
+  );
+
+  const loadingRows = (
+    <div className="space-y-2">
+      <Skeleton className="h-10 w-full" />
+      <Skeleton className="h-10 w-full" />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("trash.title")}</CardTitle>
+        <CardDescription>{t("trash.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <section className="space-y-2">
+          <h3 className="font-medium">{t("trash.customers")}</h3>
+          {customersQuery.isLoading ? loadingRows : customers.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">{t("trash.emptyCustomers")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("common.pageNo")}</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("common.village")}</TableHead>
+                  <TableHead>{t("trash.deletedAt")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map((customer) => (
+                  <TableRow key={customer.id}>
+                    <TableCell>{customer.pageNo}</TableCell>
+                    <TableCell className="font-medium">{customer.firstName} {customer.lastName}</TableCell>
+                    <TableCell>{customer.villageName}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatDateTime(customer.deletedAt)}</TableCell>
+                    <TableCell>
+                      {actions(
+                        () => handleRestore(() => restoreCustomer.mutateAsync(customer.id)),
+                        () => setPurgeTarget({ kind: "customer", customer })
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-medium">{t("trash.transactions")}</h3>
+          {transactionsQuery.isLoading ? loadingRows : transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">{t("trash.emptyTransactions")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead className="text-right">{t("common.amount")}</TableHead>
+                  <TableHead>{t("common.eventDate")}</TableHead>
+                  <TableHead>{t("trash.deletedAt")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="font-medium">
+                      {transaction.customers?.first_name} {transaction.customers?.last_name}
+                      <span className="block text-xs text-muted-foreground">{transaction.customers?.village_name}</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={transaction.amount >= 0 ? "default" : "destructive"}>
+                        {formatSignedCurrency(transaction.amount)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(transaction.event_date)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {transaction.deleted_at && formatDateTime(transaction.deleted_at)}
+                    </TableCell>
+                    <TableCell>
+                      {actions(
+                        () => handleRestore(() => restoreTransaction.mutateAsync(transaction.id)),
+                        () => setPurgeTarget({ kind: "transaction", transaction })
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      </CardContent>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("trash.purgeTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.kind === "customer"
+                ? t("trash.purgeCustomerConfirm", {
+                  name: `${purgeTarget.customer.firstName} ${purgeTarget.customer.lastName}`.trim(),
+                })
+                : t("trash.purgeTransactionConfirm")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>{t("trash.purge")}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TrashTab;
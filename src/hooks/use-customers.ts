@@ -0,0 +1,106 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLedger } from "@/hooks/use-ledger";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import {
+  CustomerFilters,
+  CustomerInput,
+  CustomerSort,
+  deleteCustomer,
+  getCustomer,
+  invalidateLedger,
+  listCustomers,
+  listTrashedCustomers,
+  mergeCustomers,
+  purgeCustomer,
+  queryKeys,
+  restoreCustomer,
+  updateCustomer,
+} from "@/lib/repository";
+
+/** One page of customers; keeps showing the previous page while the next one loads */
+export function useCustomers(filters: CustomerFilters, sort: CustomerSort, page: number, pageSize: number) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.customerList(ledgerId, filters, sort, page, pageSize),
+    queryFn: () => {
+      const from = (page - 1) * pageSize;
+      return listCustomers(ledgerId, filters, sort, from, from + pageSize - 1);
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCustomer(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.customer(id ?? ""),
+    queryFn: () => getCustomer(id as string),
+    enabled: !!id,
+  });
+}
+
+/** New customers can be saved offline and are queued; edits need the network */
+export function useSaveCustomer() {
+  const queryClient = useQueryClient();
+  const { ledgerId } = useLedger();
+  const { create } = useOfflineQueue();
+  return useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: CustomerInput }) => {
+      if (!id) {
+        const newId = crypto.randomUUID();
+        const { queued } = await create({ kind: "customer", id: newId, ledgerId, input });
+        return { id: newId, queued };
+      }
+      await updateCustomer(id, input);
+      return { id, queued: false };
+    },
+    // Fail straight away rather than pausing, so offline creates reach the queue
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteCustomer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteCustomer,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useTrashedCustomers(enabled = true) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.trashedCustomers(ledgerId),
+    queryFn: () => listTrashedCustomers(ledgerId),
+    enabled,
+  });
+}
+
+export function useRestoreCustomer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: restoreCustomer,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function usePurgeCustomer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: purgeCustomer,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useMergeCustomers() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ survivorId, duplicateIds, input }: { survivorId: string; duplicateIds: string[]; input: CustomerInput }) =>
+      mergeCustomers(survivorId, duplicateIds, input),
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
@@ -0,0 +1,22 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLedger } from "@/hooks/use-ledger";
+import { getDashboardCharts, getDashboardMetrics, queryKeys } from "@/lib/repository";
+import { DateBasis, DateRange } from "@/lib/periods";
+
+export function useDashboardMetrics(range: DateRange, basis: DateBasis) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.dashboardMetrics(ledgerId, range, basis),
+    queryFn: () => getDashboardMetrics(ledgerId, range, basis),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useDashboardCharts(range: DateRange, basis: DateBasis) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.dashboardCharts(ledgerId, range, basis),
+    queryFn: () => getDashboardCharts(ledgerId, range, basis),
+    placeholderData: keepPreviousData,
+  });
+}
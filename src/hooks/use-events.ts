@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLedger } from "@/hooks/use-ledger";
+import {
+  createEvent,
+  deleteEvent,
+  EventInput,
+  getEventTotals,
+  invalidateLedger,
+  listEvents,
+  queryKeys,
+  updateEvent,
+} from "@/lib/repository";
+
+export function useEvents() {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.eventList(ledgerId),
+    queryFn: () => listEvents(ledgerId),
+  });
+}
+
+export function useEventTotals() {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.eventTotals(ledgerId),
+    queryFn: () => getEventTotals(ledgerId),
+  });
+}
+
+export function useSaveEvent() {
+  const queryClient = useQueryClient();
+  const { ledgerId } = useLedger();
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: EventInput }) =>
+      id ? updateEvent(id, input) : createEvent(ledgerId, input),
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteEvent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteEvent,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
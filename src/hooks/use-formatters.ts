@@ -0,0 +1,36 @@
+import * as React from "react";
+import { useLanguage } from "@/hooks/use-language";
+import { toTamilNumerals } from "@/lib/i18n";
+import {
+  formatCompact,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatMonth,
+  formatSignedCurrency,
+} from "@/lib/format";
+
+interface FormatterOptions {
+  /** Write digits as Tamil numerals when the language is Tamil, as printed registers do */
+  tamilNumerals?: boolean;
+}
+
+/** The shared formatters, bound to the current language's locale */
+export function useFormatters({ tamilNumerals = false }: FormatterOptions = {}) {
+  const { language, locale } = useLanguage();
+  const digits = tamilNumerals && language === "ta";
+
+  return React.useMemo(() => {
+    const numerals = (text: string) => (digits ? toTamilNumerals(text) : text);
+
+    return {
+      formatNumber: (value: number | string) => numerals(String(value)),
+      formatCurrency: (amount: number) => numerals(formatCurrency(amount, locale)),
+      formatSignedCurrency: (amount: number) => numerals(formatSignedCurrency(amount, locale)),
+      formatCompact: (amount: number) => numerals(formatCompact(amount, locale)),
+      formatDate: (value: string) => numerals(formatDate(value, locale)),
+      formatDateTime: (value: string) => numerals(formatDateTime(value, locale)),
+      formatMonth: (value: string) => numerals(formatMonth(value, locale)),
+    };
+  }, [digits, locale]);
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { listCustomerHistory, listTransactionHistory, queryKeys } from "@/lib/repository";
+
+export function useCustomerHistory(customerId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.customerHistory(customerId ?? ""),
+    queryFn: () => listCustomerHistory(customerId as string),
+    enabled: !!customerId,
+  });
+}
+
+export function useTransactionHistory(transactionId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.transactionHistory(transactionId ?? ""),
+    queryFn: () => listTransactionHistory(transactionId as string),
+    enabled: !!transactionId,
+  });
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import { Language, locales, translate, TranslationKey, TranslationValues } from "@/lib/i18n";
+
+export const LANGUAGE_STORAGE_KEY = "moi.language";
+
+export interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+}
+
+export const LanguageContext = React.createContext<LanguageContextValue>({
+  language: "en",
+  setLanguage: () => {},
+});
+
+export function useLanguage() {
+  const { language, setLanguage } = React.useContext(LanguageContext);
+
+  const t = React.useCallback(
+    (key: TranslationKey, values?: TranslationValues) => translate(language, key, values),
+    [language]
+  );
+
+  return { language, setLanguage, t, locale: locales[language] };
+}
@@ -0,0 +1,21 @@
+import * as React from "react";
+
+export interface LedgerRealtimeContextValue {
+  /** Customers and transactions inserted since the page loaded, cleared once their highlight fades */
+  recentIds: ReadonlySet<string>;
+  /** When the last change arrived, so time-windowed views can move their window forward */
+  lastChangeAt: number;
+}
+
+export const LedgerRealtimeContext = React.createContext<LedgerRealtimeContextValue>({
+  recentIds: new Set(),
+  lastChangeAt: 0,
+});
+
+export function useLedgerRealtime() {
+  const { recentIds, lastChangeAt } = React.useContext(LedgerRealtimeContext);
+
+  const isRecent = React.useCallback((id: string) => recentIds.has(id), [recentIds]);
+
+  return { isRecent, lastChangeAt };
+}
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { Ledger } from "@/lib/repository";
+
+export interface LedgerContextValue {
+  /** The ledger every tab is reading from and writing to */
+  ledger: Ledger | null;
+  ledgers: Ledger[];
+  setLedgerId: (id: string) => void;
+}
+
+export const LedgerContext = React.createContext<LedgerContextValue>({
+  ledger: null,
+  ledgers: [],
+  setLedgerId: () => {},
+});
+
+export function useLedger() {
+  const { ledger, ledgers, setLedgerId } = React.useContext(LedgerContext);
+
+  return {
+    ledger,
+    ledgers,
+    setLedgerId,
+    ledgerId: ledger?.id ?? "",
+    isOwner: ledger?.role === "owner",
+    /** Correct and delete customers, moi and events; mirrors can_edit_ledger in the database */
+    canEdit: ledger?.role === "owner" || ledger?.role === "editor",
+    /** Add customers and moi; mirrors can_add_to_ledger in the database */
+    canAdd: ledger?.role === "owner" || ledger?.role === "editor" || ledger?.role === "helper",
+  };
+}
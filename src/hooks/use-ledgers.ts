@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  acceptLedgerInvitation,
+  createLedger,
+  deleteLedgerInvitation,
+  inviteLedgerMember,
+  LedgerRole,
+  listLedgerInvitations,
+  listLedgerMembers,
+  listMyInvitations,
+  queryKeys,
+  removeLedgerMember,
+  renameLedger,
+  setLedgerMemberRole,
+} from "@/lib/repository";
+
+export function useLedgerMembers(ledgerId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.ledgerMembers(ledgerId),
+    queryFn: () => listLedgerMembers(ledgerId),
+    enabled: enabled && !!ledgerId,
+  });
+}
+
+export function useLedgerInvitations(ledgerId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.ledgerInvitations(ledgerId),
+    queryFn: () => listLedgerInvitations(ledgerId),
+    enabled: enabled && !!ledgerId,
+  });
+}
+
+export function useMyInvitations() {
+  return useQuery({
+    queryKey: queryKeys.myInvitations,
+    queryFn: listMyInvitations,
+  });
+}
+
+/** Every ledger mutation touches the ledger list, its members or its invitations */
+function useLedgerMutation<TVariables, TData>(mutationFn: (variables: TVariables) => Promise<TData>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.ledgers }),
+  });
+}
+
+export const useCreateLedger = () => useLedgerMutation(createLedger);
+
+export const useRenameLedger = () =>
+  useLedgerMutation(({ id, name }: { id: string; name: string }) => renameLedger(id, name));
+
+export const useRemoveLedgerMember = () =>
+  useLedgerMutation(({ ledgerId, userId }: { ledgerId: string; userId: string }) =>
+    removeLedgerMember(ledgerId, userId)
+  );
+
+export const useSetLedgerMemberRole = () =>
+  useLedgerMutation(({ ledgerId, userId, role }: { ledgerId: string; userId: string; role: LedgerRole }) =>
+    setLedgerMemberRole(ledgerId, userId, role)
+  );
+
+export const useInviteLedgerMember = () =>
+  useLedgerMutation(({ ledgerId, email, role }: { ledgerId: string; email: string; role: LedgerRole }) =>
+    inviteLedgerMember(ledgerId, email, role)
+  );
+
+export const useDeleteLedgerInvitation = () => useLedgerMutation(deleteLedgerInvitation);
+
+export const useAcceptLedgerInvitation = () => useLedgerMutation(acceptLedgerInvitation);
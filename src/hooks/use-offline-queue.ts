@@ -0,0 +1,26 @@
+import * as React from "react";
+import { LedgerCreate, QueuedEntry } from "@/lib/offline-queue";
+
+export interface OfflineQueueContextValue {
+  /** Creates waiting on this device, oldest first */
+  entries: QueuedEntry[];
+  online: boolean;
+  syncing: boolean;
+  /** Saves to the server, or queues on this device when the network is down */
+  create: (entry: LedgerCreate) => Promise<{ queued: boolean }>;
+  discard: (id: string) => Promise<void>;
+  sync: () => Promise<void>;
+}
+
+export const OfflineQueueContext = React.createContext<OfflineQueueContextValue>({
+  entries: [],
+  online: true,
+  syncing: false,
+  create: () => Promise.reject(new Error("OfflineQueueProvider is missing")),
+  discard: () => Promise.resolve(),
+  sync: () => Promise.resolve(),
+});
+
+export function useOfflineQueue() {
+  return React.useContext(OfflineQueueContext);
+}
@@ -0,0 +1,16 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLedger } from "@/hooks/use-ledger";
+import { listOutstanding, queryKeys, ReciprocitySort } from "@/lib/repository";
+
+/** One page of the families we still owe; keeps showing the previous page while the next one loads */
+export function useOutstanding(sort: ReciprocitySort, page: number, pageSize: number) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.reciprocityList(ledgerId, sort, page, pageSize),
+    queryFn: () => {
+      const from = (page - 1) * pageSize;
+      return listOutstanding(ledgerId, sort, from, from + pageSize - 1);
+    },
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,97 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLedger } from "@/hooks/use-ledger";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import {
+  deleteTransaction,
+  invalidateLedger,
+  listCustomerTransactions,
+  listTransactions,
+  listTrashedTransactions,
+  purgeTransaction,
+  queryKeys,
+  restoreTransaction,
+  TransactionFilters,
+  TransactionInput,
+  TransactionWithCustomer,
+  updateTransaction,
+} from "@/lib/repository";
+
+/** The transaction log, loaded a page at a time with a keyset cursor */
+export function useTransactions(filters: TransactionFilters, pageSize: number, enabled = true) {
+  const { ledgerId } = useLedger();
+  return useInfiniteQuery({
+    queryKey: queryKeys.transactionList(ledgerId, filters),
+    queryFn: ({ pageParam }) =>
+      listTransactions(ledgerId, filters, {
+        after: pageParam,
+        limit: pageSize,
+        withCount: pageParam === null,
+      }),
+    initialPageParam: null as TransactionWithCustomer | null,
+    getNextPageParam: (lastPage) =>
+      lastPage.transactions.length === pageSize
+        ? lastPage.transactions[lastPage.transactions.length - 1]
+        : undefined,
+    enabled,
+  });
+}
+
+export function useCustomerTransactions(customerId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.customerTransactions(customerId ?? ""),
+    queryFn: () => listCustomerTransactions(customerId as string),
+    enabled: !!customerId,
+  });
+}
+
+/** New moi can be saved offline and is queued; edits need the network */
+export function useSaveTransaction() {
+  const queryClient = useQueryClient();
+  const { ledgerId } = useLedger();
+  const { create } = useOfflineQueue();
+  return useMutation({
+    mutationFn: async ({ id, customerId, input }: { id?: string; customerId: string; input: TransactionInput }) => {
+      if (!id) return create({ kind: "transaction", id: crypto.randomUUID(), ledgerId, customerId, input });
+      await updateTransaction(id, input);
+      return { queued: false };
+    },
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useDeleteTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTransaction,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function useTrashedTransactions(enabled = true) {
+  const { ledgerId } = useLedger();
+  return useQuery({
+    queryKey: queryKeys.trashedTransactions(ledgerId),
+    queryFn: () => listTrashedTransactions(ledgerId),
+    enabled,
+  });
+}
+
+export function useRestoreTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: restoreTransaction,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+export function usePurgeTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: purgeTransaction,
+    networkMode: "always",
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
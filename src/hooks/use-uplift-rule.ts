@@ -0,0 +1,24 @@
+import * as React from "react";
+import { defaultUpliftRule, UpliftRule } from "@/lib/reciprocity";
+
+const STORAGE_KEY = "moi.upliftRule";
+
+function readRule(): UpliftRule {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultUpliftRule, ...JSON.parse(stored) } : defaultUpliftRule;
+  } catch {
+    return defaultUpliftRule;
+  }
+}
+
+export function useUpliftRule() {
+  const [rule, setRuleState] = React.useState<UpliftRule>(readRule);
+
+  const setRule = React.useCallback((next: UpliftRule) => {
+    setRuleState(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  return { rule, setRule };
+}
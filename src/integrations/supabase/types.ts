@@ -14,43 +14,243 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          customer_id: string
+          id: number
+          ledger_id: string
+          new_row: Json | null
+          old_row: Json | null
+          operation: string
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          customer_id: string
+          id?: never
+          ledger_id: string
+          new_row?: Json | null
+          old_row?: Json | null
+          operation: string
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          customer_id?: string
+          id?: never
+          ledger_id?: string
+          new_row?: Json | null
+          old_row?: Json | null
+          operation?: string
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
       customers: {
         Row: {
           created_date: string
+          deleted_at: string | null
           first_name: string
           id: string
+          id_text: string | null
           last_name: string
+          ledger_id: string
           notes: string | null
           page_no: number
-          pending_amount: number | null
+          pending_amount: number
           updated_at: string
           user_id: string
           village_name: string
         }
         Insert: {
           created_date?: string
+          deleted_at?: string | null
           first_name: string
           id?: string
+          id_text?: never
           last_name: string
+          ledger_id: string
           notes?: string | null
           page_no: number
-          pending_amount?: number | null
+          pending_amount?: number
           updated_at?: string
           user_id: string
           village_name: string
         }
         Update: {
           created_date?: string
+          deleted_at?: string | null
           first_name?: string
           id?: string
+          id_text?: never
           last_name?: string
+          ledger_id?: string
           notes?: string | null
           page_no?: number
-          pending_amount?: number | null
+          pending_amount?: number
           updated_at?: string
           user_id?: string
           village_name?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "customers_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_date: string
+          event_date: string
+          event_type: Database["public"]["Enums"]["event_type"]
+          host_name: string | null
+          id: string
+          ledger_id: string
+          name: string
+          notes: string | null
+          updated_at: string
+          user_id: string
+          venue: string | null
+        }
+        Insert: {
+          created_date?: string
+          event_date: string
+          event_type?: Database["public"]["Enums"]["event_type"]
+          host_name?: string | null
+          id?: string
+          ledger_id: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+          user_id: string
+          venue?: string | null
+        }
+        Update: {
+          created_date?: string
+          event_date?: string
+          event_type?: Database["public"]["Enums"]["event_type"]
+          host_name?: string | null
+          id?: string
+          ledger_id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string
+          venue?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_invitations: {
+        Row: {
+          created_date: string
+          email: string
+          id: string
+          invited_by: string
+          ledger_id: string
+          role: Database["public"]["Enums"]["ledger_role"]
+        }
+        Insert: {
+          created_date?: string
+          email: string
+          id?: string
+          invited_by: string
+          ledger_id: string
+          role?: Database["public"]["Enums"]["ledger_role"]
+        }
+        Update: {
+          created_date?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          ledger_id?: string
+          role?: Database["public"]["Enums"]["ledger_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_invitations_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_members: {
+        Row: {
+          created_date: string
+          email: string
+          ledger_id: string
+          role: Database["public"]["Enums"]["ledger_role"]
+          user_id: string
+        }
+        Insert: {
+          created_date?: string
+          email: string
+          ledger_id: string
+          role?: Database["public"]["Enums"]["ledger_role"]
+          user_id: string
+        }
+        Update: {
+          created_date?: string
+          email?: string
+          ledger_id?: string
+          role?: Database["public"]["Enums"]["ledger_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_members_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledgers: {
+        Row: {
+          created_by: string
+          created_date: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_by: string
+          created_date?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_by?: string
+          created_date?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
       transactions: {
@@ -58,8 +258,11 @@ export type Database = {
           amount: number
           created_date: string
           customer_id: string
+          deleted_at: string | null
           event_date: string
+          event_id: string | null
           id: string
+          ledger_id: string
           notes: string | null
           updated_at: string
           user_id: string
@@ -68,8 +271,11 @@ export type Database = {
           amount: number
           created_date?: string
           customer_id: string
+          deleted_at?: string | null
           event_date: string
+          event_id?: string | null
           id?: string
+          ledger_id: string
           notes?: string | null
           updated_at?: string
           user_id: string
@@ -78,8 +284,11 @@ export type Database = {
           amount?: number
           created_date?: string
           customer_id?: string
+          deleted_at?: string | null
           event_date?: string
+          event_id?: string | null
           id?: string
+          ledger_id?: string
           notes?: string | null
           updated_at?: string
           user_id?: string
@@ -92,6 +301,27 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_customer_id_ledger_id_fkey"
+            columns: ["customer_id", "ledger_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id", "ledger_id"]
+          },
+          {
+            foreignKeyName: "transactions_event_id_ledger_id_fkey"
+            columns: ["event_id", "ledger_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id", "ledger_id"]
+          },
+          {
+            foreignKeyName: "transactions_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -99,10 +329,142 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_ledger_invitation: {
+        Args: { _invitation_id: string }
+        Returns: string
+      }
+      can_add_to_ledger: { Args: { _ledger_id: string }; Returns: boolean }
+      can_edit_ledger: { Args: { _ledger_id: string }; Returns: boolean }
+      customer_name: {
+        Args: { "": Database["public"]["Tables"]["transactions"]["Row"] }
+        Returns: string
+      }
+      get_amount_distribution: {
+        Args: {
+          _basis?: string
+          _end: string
+          _ledger_id: string
+          _limit?: number
+          _start: string
+        }
+        Returns: {
+          amount: number
+          entry_count: number
+        }[]
+      }
+      get_dashboard_metrics: {
+        Args: { _basis?: string; _end: string; _ledger_id: string; _start: string }
+        Returns: {
+          active_customers: number
+          credit_amount: number
+          debit_amount: number
+          entry_count: number
+          net_amount: number
+          previous_active_customers: number
+          previous_credit_amount: number
+          previous_debit_amount: number
+          previous_entry_count: number
+          previous_net_amount: number
+          previous_total_customers: number
+          total_customers: number
+        }[]
+      }
+      get_event_totals: {
+        Args: { _ledger_id: string }
+        Returns: {
+          entry_count: number
+          event_id: string
+          received: number
+          returned: number
+        }[]
+      }
+      get_ledger_role: {
+        Args: { _ledger_id: string }
+        Returns: Database["public"]["Enums"]["ledger_role"]
+      }
+      get_monthly_totals: {
+        Args: { _basis?: string; _end: string; _ledger_id: string; _start: string }
+        Returns: {
+          balance: number
+          credit_amount: number
+          debit_amount: number
+          month: string
+        }[]
+      }
+      get_my_ledger_invitations: {
+        Args: never
+        Returns: {
+          created_date: string
+          id: string
+          invited_by_email: string
+          ledger_id: string
+          ledger_name: string
+          role: Database["public"]["Enums"]["ledger_role"]
+        }[]
+      }
+      get_outstanding_families: {
+        Args: {
+          _ascending?: boolean
+          _ledger_id: string
+          _limit?: number
+          _offset?: number
+          _sort?: string
+        }
+        Returns: {
+          customer_id: string
+          first_name: string
+          last_name: string
+          last_received_date: string
+          outstanding: number
+          page_no: number
+          received: number
+          returned: number
+          total_count: number
+          total_outstanding: number
+          village_name: string
+        }[]
+      }
+      get_village_totals: {
+        Args: {
+          _basis?: string
+          _end: string
+          _ledger_id: string
+          _limit?: number
+          _start: string
+        }
+        Returns: {
+          credit_amount: number
+          customer_count: number
+          debit_amount: number
+          village_name: string
+        }[]
+      }
+      is_ledger_member: { Args: { _ledger_id: string }; Returns: boolean }
+      is_ledger_owner: { Args: { _ledger_id: string }; Returns: boolean }
+      merge_customers: {
+        Args: {
+          _duplicate_ids: string[]
+          _first_name: string
+          _last_name: string
+          _notes: string
+          _page_no: number
+          _survivor_id: string
+          _village_name: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      event_type:
+        | "wedding"
+        | "engagement"
+        | "house_warming"
+        | "ear_piercing"
+        | "puberty"
+        | "naming"
+        | "funeral"
+        | "other"
+      ledger_role: "owner" | "editor" | "helper" | "viewer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -229,6 +591,18 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      event_type: [
+        "wedding",
+        "engagement",
+        "house_warming",
+        "ear_piercing",
+        "puberty",
+        "naming",
+        "funeral",
+        "other",
+      ],
+      ledger_role: ["owner", "editor", "helper", "viewer"],
+    },
   },
 } as const
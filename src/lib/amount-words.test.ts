@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords, numberToTamilWords, numberToWords } from "@/lib/amount-words";
+
+describe("numberToWords", () => {
+  it("spells numbers in the Indian system", () => {
+    expect(numberToWords(0)).toBe("Zero");
+    expect(numberToWords(15)).toBe("Fifteen");
+    expect(numberToWords(101)).toBe("One Hundred One");
+    expect(numberToWords(1001)).toBe("One Thousand One");
+    expect(numberToWords(250000)).toBe("Two Lakh Fifty Thousand");
+    expect(numberToWords(12345678)).toBe("One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight");
+    expect(numberToWords(-500)).toBe("Minus Five Hundred");
+  });
+});
+
+describe("numberToTamilWords", () => {
+  it("uses the joined forms when more follows", () => {
+    expect(numberToTamilWords(0)).toBe("பூஜ்ஜியம்");
+    expect(numberToTamilWords(20)).toBe("இருபது");
+    expect(numberToTamilWords(21)).toBe("இருபத்து ஒன்று");
+    expect(numberToTamilWords(100)).toBe("நூறு");
+    expect(numberToTamilWords(1000)).toBe("ஆயிரம்");
+    expect(numberToTamilWords(1001)).toBe("ஆயிரத்து ஒன்று");
+    expect(numberToTamilWords(100000)).toBe("ஒரு இலட்சம்");
+  });
+});
+
+describe("amountInWords", () => {
+  it("writes whole rupees the way a moi book does", () => {
+    expect(amountInWords(1001)).toBe("Rupees One Thousand One Only");
+    expect(amountInWords(1001, "ta")).toBe("ரூபாய் ஆயிரத்து ஒன்று மட்டும்");
+  });
+
+  it("spells out paise after the rupees", () => {
+    expect(amountInWords(1001.5)).toBe("Rupees One Thousand One and Fifty Paise Only");
+    expect(amountInWords(1001.5, "ta")).toBe("ரூபாய் ஆயிரத்து ஒன்று மற்றும் ஐம்பது பைசா மட்டும்");
+  });
+
+  it("writes paise alone below a rupee", () => {
+    expect(amountInWords(0.75)).toBe("Seventy Five Paise Only");
+    expect(amountInWords(0.75, "ta")).toBe("எழுபத்து ஐந்து பைசா மட்டும்");
+  });
+
+  it("rounds to the nearest paisa", () => {
+    expect(amountInWords(10.999)).toBe("Rupees Eleven Only");
+    expect(amountInWords(10.254)).toBe("Rupees Ten and Twenty Five Paise Only");
+  });
+
+  it("keeps the sign of negative amounts", () => {
+    expect(amountInWords(-500)).toBe("Rupees Minus Five Hundred Only");
+    expect(amountInWords(-0.5)).toBe("Minus Fifty Paise Only");
+  });
+});
@@ -0,0 +1,114 @@
+import { Language } from "@/lib/i18n";
+
+const ones = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine",
+  "Ten", "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+
+const tens = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+const belowHundred = (n: number) => {
+  if (n < 20) return ones[n];
+  return [tens[Math.floor(n / 10)], ones[n % 10]].filter(Boolean).join(" ");
+};
+
+const belowThousand = (n: number) => {
+  const hundreds = Math.floor(n / 100);
+  return [hundreds ? `${ones[hundreds]} Hundred` : "", belowHundred(n % 100)].filter(Boolean).join(" ");
+};
+
+/** Spells a whole number using the Indian system: thousand, lakh, crore */
+export function numberToWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+  if (value < 0) return `Minus ${numberToWords(n)}`;
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crore ? `${numberToWords(crore)} Crore` : "",
+    lakh ? `${belowHundred(lakh)} Lakh` : "",
+    thousand ? `${belowHundred(thousand)} Thousand` : "",
+    belowThousand(rest),
+  ].filter(Boolean).join(" ");
+}
+
+const tamilOnes = [
+  "", "ஒன்று", "இரண்டு", "மூன்று", "நான்கு", "ஐந்து", "ஆறு", "ஏழு", "எட்டு", "ஒன்பது",
+  "பத்து", "பதினொன்று", "பன்னிரண்டு", "பதின்மூன்று", "பதினான்கு", "பதினைந்து", "பதினாறு", "பதினேழு", "பதினெட்டு", "பத்தொன்பது",
+];
+
+// Tamil numbers change form when another number follows (இருபது alone, இருபத்து ஒன்று before a unit)
+const tamilTens = ["", "", "இருபது", "முப்பது", "நாற்பது", "ஐம்பது", "அறுபது", "எழுபது", "எண்பது", "தொண்ணூறு"];
+const tamilTensJoined = ["", "", "இருபத்து", "முப்பத்து", "நாற்பத்து", "ஐம்பத்து", "அறுபத்து", "எழுபத்து", "எண்பத்து", "தொண்ணூற்று"];
+const tamilHundreds = ["", "நூறு", "இருநூறு", "முந்நூறு", "நானூறு", "ஐநூறு", "அறுநூறு", "எழுநூறு", "எண்ணூறு", "தொள்ளாயிரம்"];
+const tamilHundredsJoined = ["", "நூற்று", "இருநூற்று", "முந்நூற்று", "நானூற்று", "ஐநூற்று", "அறுநூற்று", "எழுநூற்று", "எண்ணூற்று", "தொள்ளாயிரத்து"];
+
+const tamilBelowHundred = (n: number) => {
+  if (n < 20) return tamilOnes[n];
+  const unit = n % 10;
+  return unit === 0 ? tamilTens[n / 10] : `${tamilTensJoined[Math.floor(n / 10)]} ${tamilOnes[unit]}`;
+};
+
+/** Same as numberToWords, in Tamil */
+export function numberToTamilWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "பூஜ்ஜியம்";
+  if (value < 0) return `கழித்தல் ${numberToTamilWords(n)}`;
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const hundred = Math.floor((n % 1000) / 100);
+  const rest = n % 100;
+
+  // Each part is [form when it ends the number, form when more follows]
+  const parts: [string, string][] = [];
+  if (crore) {
+    const count = crore === 1 ? "ஒரு" : numberToTamilWords(crore);
+    parts.push([`${count} கோடி`, `${count} கோடியே`]);
+  }
+  if (lakh) {
+    const count = lakh === 1 ? "ஒரு" : tamilBelowHundred(lakh);
+    parts.push([`${count} இலட்சம்`, `${count} இலட்சத்து`]);
+  }
+  if (thousand) {
+    const count = thousand === 1 ? "" : `${tamilBelowHundred(thousand)} `;
+    parts.push([`${count}ஆயிரம்`, `${count}ஆயிரத்து`]);
+  }
+  if (hundred) {
+    parts.push([tamilHundreds[hundred], tamilHundredsJoined[hundred]]);
+  }
+  if (rest) {
+    const words = tamilBelowHundred(rest);
+    parts.push([words, words]);
+  }
+
+  return parts.map((part, index) => part[index === parts.length - 1 ? 0 : 1]).join(" ");
+}
+
+/**
+ * "Rupees One Thousand One Only", the way amounts are written out in a moi book.
+ * Paise follow the rupees ("... and Fifty Paise Only") and stand alone below a rupee.
+ */
+export function amountInWords(amount: number, language: Language = "en"): string {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  const sign = amount < 0 && totalPaise > 0 ? -1 : 1;
+
+  if (language === "ta") {
+    const minus = sign < 0 ? "கழித்தல் " : "";
+    if (paise === 0) return `ரூபாய் ${minus}${numberToTamilWords(rupees)} மட்டும்`;
+    if (rupees === 0) return `${minus}${numberToTamilWords(paise)} பைசா மட்டும்`;
+    return `ரூபாய் ${minus}${numberToTamilWords(rupees)} மற்றும் ${numberToTamilWords(paise)} பைசா மட்டும்`;
+  }
+
+  const minus = sign < 0 ? "Minus " : "";
+  if (paise === 0) return `Rupees ${minus}${numberToWords(rupees)} Only`;
+  if (rupees === 0) return `${minus}${numberToWords(paise)} Paise Only`;
+  return `Rupees ${minus}${numberToWords(rupees)} and ${numberToWords(paise)} Paise Only`;
+}
@@ -0,0 +1,40 @@
+import { Json } from "@/integrations/supabase/types";
+
+export type AuditRow = Record<string, Json | undefined>;
+
+export interface FieldChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+/** Fields people actually enter, in the order they appear on the forms */
+const trackedFields = [
+  "page_no",
+  "first_name",
+  "last_name",
+  "village_name",
+  "amount",
+  "event_date",
+  "event_id",
+  "customer_id",
+  "notes",
+];
+
+const asRow = (value: Json | null): AuditRow =>
+  value && typeof value === "object" && !Array.isArray(value) ? value : {};
+
+/**
+ * What changed between two versions of a row. A created row is compared
+ * against nothing and a deleted one against nothing, so both list every
+ * field that had a value.
+ */
+export function diffRows(oldRow: Json | null, newRow: Json | null): FieldChange[] {
+  const before = asRow(oldRow);
+  const after = asRow(newRow);
+
+  return trackedFields
+    .filter((field) => field in before || field in after)
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
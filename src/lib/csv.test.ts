@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue, formatCsvAmount, parseCsv, toCsvRow } from "@/lib/csv";
+
+describe("escapeCsvValue", () => {
+  it("leaves plain values and numbers as they are", () => {
+    expect(escapeCsvValue("Murugan")).toBe("Murugan");
+    expect(escapeCsvValue(-1001)).toBe("-1001");
+    expect(escapeCsvValue(null)).toBe("");
+    expect(escapeCsvValue(undefined)).toBe("");
+  });
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    expect(escapeCsvValue("Madurai, East")).toBe('"Madurai, East"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  it("guards cells a spreadsheet would run as a formula", () => {
+    expect(escapeCsvValue("=SUM(A1:A2)")).toBe("'=SUM(A1:A2)");
+    expect(escapeCsvValue("@cmd")).toBe("'@cmd");
+    expect(escapeCsvValue("+91 98765")).toBe("'+91 98765");
+    expect(escapeCsvValue("-1+2")).toBe("'-1+2");
+  });
+
+  it("does not guard signed or grouped amounts", () => {
+    expect(escapeCsvValue("-1,001")).toBe('"-1,001"');
+    expect(escapeCsvValue("-1,00,001.50")).toBe('"-1,00,001.50"');
+    expect(escapeCsvValue("+500")).toBe("+500");
+  });
+});
+
+describe("toCsvRow", () => {
+  it("joins escaped values and ends the line", () => {
+    expect(toCsvRow(["a", 1, null, "b,c"])).toBe('a,1,,"b,c"\r\n');
+  });
+});
+
+describe("formatCsvAmount", () => {
+  it("keeps amounts as numbers unless Indian grouping is asked for", () => {
+    expect(formatCsvAmount(100001, false)).toBe(100001);
+    expect(formatCsvAmount(100001, true)).toBe("1,00,001");
+  });
+
+  it("exports negative grouped amounts without a formula guard", () => {
+    expect(toCsvRow([formatCsvAmount(-1001, true)])).toBe('"-1,001"\r\n');
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('name,notes\r\n"Murugan, K","said ""hi""\nthen left"\n')).toEqual([
+      ["name", "notes"],
+      ["Murugan, K", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("skips the byte order mark and blank lines", () => {
+    expect(parseCsv("﻿a,b\n\n,\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("reads back what toCsvRow wrote", () => {
+    const values = ["=1+1", "Madurai, East", 'a "quote"', "-1,001"];
+    expect(parseCsv(toCsvRow(values))).toEqual([["'=1+1", "Madurai, East", 'a "quote"', "-1,001"]]);
+  });
+});
@@ -0,0 +1,87 @@
+type CsvValue = string | number | null | undefined;
+
+// Spreadsheets execute cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// A signed amount, grouped or not (-1,00,001.50), is data rather than a formula
+const NUMBER = /^[+-]?\d[\d,]*(\.\d+)?$/;
+
+export function escapeCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  const safe = FORMULA_PREFIX.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsvRow(values: CsvValue[]) {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+}
+
+/** Amounts as plain numbers, or grouped the Indian way (1,00,001) when asked */
+export function formatCsvAmount(amount: number, indianFormat: boolean) {
+  if (!indianFormat) return amount;
+  return new Intl.NumberFormat("en-IN", { maximumFractionDigits: 2 }).format(amount);
+}
+
+/** Gives the browser a chance to paint between chunks of a long export */
+export function yieldToBrowser() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+export function downloadCsv(filename: string, parts: string[]) {
+  // The BOM makes Excel read the file as UTF-8 so Tamil names survive
+  const blob = new Blob(["\uFEFF", ...parts], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Parses RFC 4180 CSV (quoted fields, embedded commas, quotes and newlines) into rows of cells */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
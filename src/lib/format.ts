@@ -0,0 +1,47 @@
+const DEFAULT_LOCALE = "en-IN";
+
+export function formatCurrency(amount: number, locale = DEFAULT_LOCALE) {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/** Ledger style: "+₹1,001" for money received, "-₹1,001" for money given */
+export function formatSignedCurrency(amount: number, locale = DEFAULT_LOCALE) {
+  return `${amount >= 0 ? "+" : "-"}${formatCurrency(Math.abs(amount), locale)}`;
+}
+
+export function formatCompact(amount: number, locale = DEFAULT_LOCALE) {
+  return new Intl.NumberFormat(locale, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+}
+
+export function formatDate(value: string, locale = DEFAULT_LOCALE) {
+  return new Date(value).toLocaleDateString(locale, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export function formatDateTime(value: string, locale = DEFAULT_LOCALE) {
+  return new Date(value).toLocaleString(locale, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** Takes a YYYY-MM-DD month start and reads it as local time, e.g. "Dec 25" */
+export function formatMonth(value: string, locale = DEFAULT_LOCALE) {
+  return new Date(`${value}T00:00:00`).toLocaleDateString(locale, {
+    month: "short",
+    year: "2-digit",
+  });
+}
@@ -0,0 +1,403 @@
+const en = {
+  "common.error": "Error",
+  "common.success": "Success",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.undo": "Undo",
+  "common.edit": "Edit",
+  "common.create": "Create",
+  "common.update": "Update",
+  "common.back": "Back",
+  "common.noNotes": "No notes",
+  "common.exportCsv": "Export CSV",
+  "common.exporting": "Exporting {count}...",
+  "common.plainNumbers": "Plain numbers",
+  "common.indianFormat": "Indian format (1,00,001)",
+  "common.createdOn": "Created: {date}",
+  "common.eventOn": "Event: {date}",
+  "common.customerId": "Customer ID",
+  "common.firstName": "First Name",
+  "common.lastName": "Last Name",
+  "common.village": "Village",
+  "common.pageNo": "Page No",
+  "common.notes": "Notes",
+  "common.amount": "Amount",
+  "common.eventDate": "Event Date",
+  "common.name": "Name",
+  "common.received": "Received",
+  "common.returned": "Returned",
+  "common.language": "Language",
+
+  "validation.pageNoRequired": "Page number is required",
+  "validation.firstNameRequired": "First name is required",
+  "validation.lastNameRequired": "Last name is required",
+  "validation.villageRequired": "Village is required",
+  "validation.amountRequired": "Amount is required",
+  "validation.eventDateRequired": "Event date is required",
+  "validation.eventNameRequired": "Event name is required",
+  "validation.tooLong": "This is too long",
+
+  "app.name": "Moi App",
+  "app.tagline": "Manage your customers and transactions",
+  "app.logout": "Logout",
+  "app.loggedOut": "Logged out successfully",
+  "app.logoutFailed": "Error logging out",
+
+  "auth.signIn": "Sign In",
+  "auth.signUp": "Sign Up",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.signedIn": "Logged in successfully!",
+  "auth.signedUp": "Account created successfully! Please check your email.",
+
+  "tabs.dashboard": "Dashboard",
+  "tabs.customers": "Customers",
+  "tabs.events": "Events",
+  "tabs.reciprocity": "Reciprocity",
+  "tabs.transactions": "Transaction Log",
+  "tabs.trash": "Trash",
+
+  "customers.title": "Customer Management",
+  "customers.printRegister": "Print Register",
+  "customers.import": "Import",
+  "customers.create": "Create Customer",
+  "customers.pendingAmount": "Pending Amount",
+  "customers.actions": "Actions",
+  "customers.filterId": "Filter Customer ID...",
+  "customers.filterFirstName": "Filter First Name...",
+  "customers.filterLastName": "Filter Last Name...",
+  "customers.filterVillage": "Filter Village...",
+  "customers.filterPageNo": "Filter Page No...",
+  "customers.addTransaction": "Add Transaction",
+  "customers.showing": "Showing {from} to {to} of {total} customers",
+  "customers.perPage": "{size} / page",
+  "customers.selected": "{count} selected",
+  "customers.select": "Select {name}",
+  "customers.merge": "Merge",
+  "customers.clearSelection": "Clear selection",
+  "customers.pageOf": "Page {page} of {total}",
+  "customers.weOwe": "We Owe",
+  "customers.suggestedReturn": "Suggested Return",
+  "customers.editTransaction": "Edit Transaction",
+  "customers.newTransaction": "Add New Transaction",
+  "customers.amountPlaceholder": "Enter amount (negative for debit)",
+  "customers.eventOptional": "Function / Event (Optional)",
+  "customers.selectEvent": "Select event",
+  "customers.noEvent": "No event",
+  "customers.notesOptional": "Notes (Optional)",
+  "customers.notesPlaceholder": "Enter notes",
+  "customers.editCustomer": "Edit Customer",
+  "customers.newCustomer": "Create New Customer",
+  "customers.updateCustomer": "Update Customer",
+  "customers.pageNumber": "Page Number",
+  "customers.pageNumberPlaceholder": "Enter page number",
+  "customers.firstNamePlaceholder": "Enter first name",
+  "customers.lastNamePlaceholder": "Enter last name",
+  "customers.villagePlaceholder": "Enter village name",
+  "customers.customerNotesPlaceholder": "Enter any additional notes",
+  "customers.deleteTitle": "Delete Customer",
+  "customers.deleteConfirm": "Move {name} to the Trash? Their transactions go with them, and both can be restored from the Trash.",
+  "customers.fetchFailed": "Failed to fetch customers",
+  "customers.fetchOneFailed": "Failed to fetch customer",
+  "customers.exported": "Exported {count} customers",
+  "customers.exportFailed": "Failed to export customers",
+  "customers.created": "Customer created successfully",
+  "customers.updated": "Customer updated successfully",
+  "customers.createFailed": "Failed to create customer",
+  "customers.updateFailed": "Failed to update customer",
+  "customers.deleted": "Customer moved to the Trash",
+  "customers.deleteFailed": "Failed to delete customer",
+  "customers.balance": "Balance",
+
+  "transactions.title": "Transaction History",
+  "transactions.deleteTitle": "Delete Transaction",
+  "transactions.deleteConfirm": "Move this transaction to the Trash? It can be restored from the Trash.",
+  "transactions.fetchFailed": "Failed to fetch transactions",
+  "transactions.loadMoreFailed": "Failed to load more transactions",
+  "transactions.created": "Transaction created successfully",
+  "transactions.updated": "Transaction updated successfully",
+  "transactions.deleted": "Transaction moved to the Trash",
+  "transactions.createFailed": "Failed to create transaction",
+  "transactions.updateFailed": "Failed to update transaction",
+  "transactions.deleteFailed": "Failed to delete transaction",
+  "transactions.exported": "Exported {count} transactions",
+  "transactions.exportFailed": "Failed to export transactions",
+  "transactions.clearFilters": "Clear filters",
+  "transactions.search": "Search",
+  "transactions.searchPlaceholder": "Notes or customer name...",
+  "transactions.from": "Event date from",
+  "transactions.to": "Event date to",
+  "transactions.type": "Type",
+  "transactions.all": "All",
+  "transactions.credit": "Credit",
+  "transactions.debit": "Debit",
+  "transactions.amountRange": "Amount range",
+  "transactions.min": "Min",
+  "transactions.max": "Max",
+  "transactions.sortBy": "Sort by",
+  "transactions.dateEntered": "Date entered",
+  "transactions.eventDate": "Event date",
+  "transactions.empty": "No transactions found",
+  "transactions.loadingMore": "Loading more transactions...",
+  "transactions.villagePage": "{village} · Page {page}",
+  "transactions.showing": "Showing {count} of {total} transactions",
+
+  "events.title": "Functions & Events",
+  "events.create": "Create Event",
+  "events.empty": "No events yet",
+  "events.event": "Event",
+  "events.type": "Type",
+  "events.date": "Date",
+  "events.venue": "Venue",
+  "events.host": "Host",
+  "events.entries": "Entries",
+  "events.actions": "Actions",
+  "events.printRegister": "Print Register",
+  "events.noEntries": "No moi recorded for this event",
+  "events.unknownCustomer": "Unknown customer",
+  "events.loadMore": "Load more",
+  "events.editEvent": "Edit Event",
+  "events.newEvent": "Create New Event",
+  "events.name": "Event Name",
+  "events.namePlaceholder": "e.g. Priya's Wedding",
+  "events.venueOptional": "Venue (Optional)",
+  "events.venuePlaceholder": "Enter venue",
+  "events.hostOptional": "Host Family Member (Optional)",
+  "events.hostPlaceholder": "Whose function is this?",
+  "events.notesOptional": "Notes (Optional)",
+  "events.notesPlaceholder": "Enter any additional notes",
+  "events.deleteTitle": "Delete Event",
+  "events.deleteConfirm": "Are you sure you want to delete {name}? Transactions recorded at this event will be kept but no longer linked to it.",
+  "events.fetchFailed": "Failed to fetch events",
+  "events.created": "Event created successfully",
+  "events.updated": "Event updated successfully",
+  "events.createFailed": "Failed to create event",
+  "events.updateFailed": "Failed to update event",
+  "events.deleted": "Event deleted successfully",
+  "events.deleteFailed": "Failed to delete event",
+
+  "eventType.wedding": "Wedding",
+  "eventType.engagement": "Engagement",
+  "eventType.house_warming": "House Warming",
+  "eventType.ear_piercing": "Ear Piercing",
+  "eventType.puberty": "Puberty Ceremony",
+  "eventType.naming": "Naming Ceremony",
+  "eventType.funeral": "Funeral",
+  "eventType.other": "Other",
+
+  "reciprocity.title": "Families We Still Owe",
+  "reciprocity.summary": "{count} families · {amount} outstanding",
+  "reciprocity.upliftPercent": "Uplift %",
+  "reciprocity.roundTo": "Round to",
+  "reciprocity.addOne": "Add ₹1",
+  "reciprocity.family": "Family",
+  "reciprocity.lastReceived": "Last Received",
+  "reciprocity.empty": "No outstanding obligations",
+  "reciprocity.fetchFailed": "Failed to fetch reciprocity",
+
+  "import.title": "Import Moi Notebook",
+  "import.uploadHint": "Upload a CSV or Excel (.xlsx) file with one entry per row and a header row.",
+  "import.mapHint": "Match the columns in {file} to ledger fields.",
+  "import.previewHint": "Check the rows before importing. Rows with errors will be skipped.",
+  "import.importingHint": "Saving entries...",
+  "import.doneHint": "Import complete.",
+  "import.needsHeader": "The file needs a header row and at least one entry",
+  "import.readFailed": "Failed to read file",
+  "import.duplicateCheckFailed": "Failed to check for duplicate customers",
+  "import.failedPartway": "Import stopped part way through. Rows already saved were kept and are skipped if you import again.",
+  "import.notMapped": "— Not mapped —",
+  "import.column": "Column {number}",
+  "import.defaultDate": "Event date for rows without one",
+  "import.missingColumns": "Map a column for: {fields}",
+  "import.previewRows": "Preview {count} rows",
+  "import.validRows": "{count} valid rows",
+  "import.withErrors": "{count} with errors",
+  "import.newCustomers": "{count} new customers",
+  "import.matchExisting": "{count} rows match existing customers",
+  "import.transactions": "{count} transactions",
+  "import.mergeDuplicates": "Treat rows with the same name and village as the same customer",
+  "import.line": "Line",
+  "import.date": "Date",
+  "import.status": "Status",
+  "import.existingCustomer": "Existing customer",
+  "import.repeatInFile": "Repeat in file",
+  "import.new": "New",
+  "import.showingFirst": "Showing the first {limit} of {total} rows.",
+  "import.importRows": "Import {count} rows",
+  "import.saved": "{progress}% saved",
+  "import.added": "Added {customers} customers and {transactions} transactions.",
+  "import.close": "Close",
+  "import.resume": "Continue the unfinished import of {file} started {date}",
+  "import.resumeHint": "Turn this off if this is a different notebook with the same file name.",
+  "import.alreadySaved": "{count} entries were already saved by an earlier attempt and were left as they are.",
+  "import.inTrash": "{count} entries belong to customers or moi in the trash and were not imported. Restore them from the trash first.",
+  "import.pageNotWhole": "Page number must be a whole number",
+  "import.amountNotNumber": "Amount is not a number",
+  "import.dateInvalid": "Event date is not a valid date",
+
+  "metrics.title": "Dashboard Overview",
+  "metrics.subtitle": "Your moi for {period}, compared with the previous period",
+  "metrics.tamilMonth": "{month} month",
+  "metrics.period": "Period",
+  "metrics.from": "From",
+  "metrics.to": "To",
+  "metrics.dateBy": "Date by",
+  "metrics.netAmount": "Net Amount",
+  "metrics.entries": "Entries",
+  "metrics.totalCustomers": "Total Customers",
+  "metrics.activeCustomers": "Active Customers",
+  "metrics.creditAmount": "Credit Amount",
+  "metrics.debitAmount": "Debit Amount",
+  "metrics.noChange": "No change vs previous period",
+  "metrics.nothingPrevious": "Nothing in previous period",
+  "metrics.change": "{change}% vs previous period",
+  "metrics.fetchFailed": "Failed to fetch dashboard metrics",
+
+  "period.week": "This week",
+  "period.month": "This month",
+  "period.tamil_month": "This Tamil month",
+  "period.year": "This year",
+  "period.custom": "Custom range",
+
+  "charts.monthly": "Monthly Inflow vs Outflow",
+  "charts.balance": "Cumulative Balance",
+  "charts.villages": "Top Villages",
+  "charts.amounts": "Gift Amounts",
+  "charts.empty": "No transactions in this period",
+  "charts.balanceLabel": "Balance",
+  "charts.entriesLabel": "Entries",
+  "charts.fetchFailed": "Failed to fetch chart data",
+
+  "register.title": "Moi Register",
+  "register.print": "Print / Save as PDF",
+  "register.filteredBy": "Filtered by: {filters}",
+  "register.allEntries": "All entries",
+  "register.empty": "No entries to print",
+  "register.page": "Page {page}",
+  "register.serial": "S.No",
+  "register.date": "Date",
+  "register.amountInWords": "Amount in Words",
+  "register.returned": "(returned)",
+  "register.pageTotal": "Page {page} total",
+  "register.grandTotal": "Grand total ({count} entries)",
+  "register.loadFailed": "Failed to load the register",
+  "register.noLedger": "This link does not say which ledger to print. Open the register again from the dashboard.",
+
+  "offline.offline": "Offline",
+  "offline.pending": "{count} waiting to sync",
+  "offline.syncNow": "Sync now",
+  "offline.syncing": "Syncing…",
+  "offline.queued": "Saved on this device. It will sync when you are back online.",
+  "offline.synced": "{count} offline entries synced",
+  "offline.syncFailed": "{count} entries could not be synced",
+  "offline.pendingBadge": "Pending",
+  "offline.failedBadge": "Not synced",
+  "offline.discard": "Discard",
+  "offline.discarded": "Removed from this device",
+
+  "pwa.updateAvailable": "A new version is available",
+  "pwa.reload": "Reload",
+  "pwa.offlineReady": "Ready to open without a connection",
+
+  "ledger.label": "Ledger",
+  "ledger.manage": "Manage ledger",
+  "ledger.manageDescription": "Share this ledger with your household. Everyone who joins sees the same customers and moi.",
+  "ledger.name": "Ledger name",
+  "ledger.saveName": "Save name",
+  "ledger.renamed": "Ledger renamed",
+  "ledger.members": "Members",
+  "ledger.you": "(you)",
+  "ledger.role": "Role",
+  "ledger.role.owner": "Owner",
+  "ledger.role.editor": "Editor",
+  "ledger.role.helper": "Helper",
+  "ledger.role.viewer": "Viewer",
+  "ledger.roleHint.owner": "Owners can do everything, including managing members.",
+  "ledger.roleHint.editor": "Editors can add, correct and delete entries.",
+  "ledger.roleHint.helper": "Helpers can only add new entries, from the collection counter screen.",
+  "ledger.roleHint.viewer": "Viewers can look but not change anything.",
+  "ledger.roleChanged": "Role updated",
+  "ledger.remove": "Remove",
+  "ledger.removed": "Member removed",
+  "ledger.leave": "Leave ledger",
+  "ledger.left": "You left the ledger",
+  "ledger.invite": "Invite by email",
+  "ledger.inviteHint": "They will see the invitation when they sign in with this email.",
+  "ledger.inviteButton": "Invite",
+  "ledger.invited": "Invitation sent to {email}",
+  "ledger.invalidEmail": "Enter a valid email address",
+  "ledger.pendingInvitations": "Pending invitations",
+  "ledger.revoke": "Revoke",
+  "ledger.revoked": "Invitation revoked",
+  "ledger.new": "New ledger",
+  "ledger.newPlaceholder": "e.g. Parents' ledger",
+  "ledger.created": "Ledger created",
+  "ledger.invitation": "{inviter} invited you to share the ledger “{ledger}”",
+  "ledger.join": "Join",
+  "ledger.decline": "Decline",
+  "ledger.joined": "You joined {ledger}",
+  "ledger.actionFailed": "Could not update the ledger",
+  "ledger.loadFailed": "Could not load your ledgers",
+  "ledger.loadFailedDescription": "Check your connection and try again.",
+  "ledger.retry": "Try again",
+  "ledger.emptyTitle": "Create a ledger to get started",
+  "ledger.emptyDescription": "You are not in any ledger yet. Create one for your household, or join one you have been invited to.",
+
+  "entry.title": "Collection Counter",
+  "entry.description": "Find the giver, or add them if they are new, then record their moi.",
+  "entry.newCustomer": "New customer",
+  "entry.noMatches": "No matching customers",
+  "entry.change": "Change",
+  "entry.pickCustomer": "Pick a customer first",
+  "entry.save": "Save moi",
+  "entry.recorded": "Recorded at this counter",
+  "entry.recordedEmpty": "Moi you save will be listed here.",
+
+  "history.title": "History",
+  "history.customerTitle": "History of {name}",
+  "history.transactionTitle": "Transaction History",
+  "history.description": "Every change is recorded with who made it and when. The record cannot be edited.",
+  "history.empty": "No changes recorded yet",
+  "history.created": "Created",
+  "history.changed": "Changed",
+  "history.deleted": "Deleted",
+  "history.restored": "Restored",
+  "history.purged": "Deleted permanently",
+  "history.merged": "Merged",
+  "history.mergedFrom": "Merged from {name}",
+  "history.customer": "Customer details",
+  "history.customerField": "Customer",
+  "history.transaction": "Moi of {amount}",
+  "history.event": "Event",
+  "history.unknownUser": "System",
+  "history.fetchFailed": "Failed to load history",
+
+  "trash.title": "Trash",
+  "trash.description": "Deleted customers and transactions stay here until they are restored or deleted permanently.",
+  "trash.customers": "Customers",
+  "trash.transactions": "Transactions",
+  "trash.emptyCustomers": "No deleted customers",
+  "trash.emptyTransactions": "No deleted transactions",
+  "trash.deletedAt": "Deleted",
+  "trash.restore": "Restore",
+  "trash.purge": "Delete permanently",
+  "trash.restored": "Restored from the Trash",
+  "trash.restoreFailed": "Failed to restore",
+  "trash.purged": "Deleted permanently",
+  "trash.purgeFailed": "Failed to delete permanently",
+  "trash.purgeTitle": "Delete Permanently",
+  "trash.purgeCustomerConfirm": "Permanently delete {name} and all their transactions? This action cannot be undone.",
+  "trash.purgeTransactionConfirm": "Permanently delete this transaction? This action cannot be undone.",
+  "trash.fetchFailed": "Failed to load the Trash",
+
+  "merge.title": "Merge {count} Customers",
+  "merge.description": "Fold duplicate entries of the same family into one customer. Every moi moves to the surviving customer and the others are removed.",
+  "merge.survivor": "Keep this customer",
+  "merge.fields": "Details to keep",
+  "merge.summary": "Combined balance after the merge: {balance}",
+  "merge.confirm": "Merge",
+  "merge.merged": "{count} customers merged",
+  "merge.failed": "Failed to merge customers",
+};
+
+export default en;
@@ -0,0 +1,34 @@
+import en from "./en";
+import ta from "./ta";
+
+export type Language = "en" | "ta";
+
+export type TranslationKey = keyof typeof en;
+
+export type TranslationValues = Record<string, string | number>;
+
+export const languages: { code: Language; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "ta", label: "தமிழ்" },
+];
+
+const dictionaries: Record<Language, Record<TranslationKey, string>> = { en, ta };
+
+/** Intl locale used for dates and numbers in each language */
+export const locales: Record<Language, string> = {
+  en: "en-IN",
+  ta: "ta-IN",
+};
+
+export function translate(language: Language, key: TranslationKey, values?: TranslationValues): string {
+  const template = dictionaries[language][key] ?? en[key];
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
+}
+
+const tamilDigits = ["௦", "௧", "௨", "௩", "௪", "௫", "௬", "௭", "௮", "௯"];
+
+/** Swaps 0-9 for Tamil digits, leaving separators and symbols as they are */
+export function toTamilNumerals(text: string): string {
+  return text.replace(/[0-9]/g, (digit) => tamilDigits[Number(digit)]);
+}
@@ -0,0 +1,405 @@
+import type en from "./en";
+
+const ta: Record<keyof typeof en, string> = {
+  "common.error": "பிழை",
+  "common.success": "வெற்றி",
+  "common.cancel": "ரத்து",
+  "common.delete": "நீக்கு",
+  "common.undo": "செயல்தவிர்",
+  "common.edit": "திருத்து",
+  "common.create": "உருவாக்கு",
+  "common.update": "புதுப்பி",
+  "common.back": "பின் செல்",
+  "common.noNotes": "குறிப்புகள் இல்லை",
+  "common.exportCsv": "CSV ஏற்றுமதி",
+  "common.exporting": "{count} ஏற்றுமதி ஆகிறது...",
+  "common.plainNumbers": "வெற்று எண்கள்",
+  "common.indianFormat": "இந்திய வடிவம் (1,00,001)",
+  "common.createdOn": "பதிவு: {date}",
+  "common.eventOn": "நிகழ்வு: {date}",
+  "common.customerId": "வாடிக்கையாளர் எண்",
+  "common.firstName": "முதல் பெயர்",
+  "common.lastName": "கடைசி பெயர்",
+  "common.village": "ஊர்",
+  "common.pageNo": "பக்க எண்",
+  "common.notes": "குறிப்புகள்",
+  "common.amount": "தொகை",
+  "common.eventDate": "நிகழ்வு தேதி",
+  "common.name": "பெயர்",
+  "common.received": "பெற்றது",
+  "common.returned": "திருப்பியது",
+  "common.language": "மொழி",
+
+  "validation.pageNoRequired": "பக்க எண் தேவை",
+  "validation.firstNameRequired": "முதல் பெயர் தேவை",
+  "validation.lastNameRequired": "கடைசி பெயர் தேவை",
+  "validation.villageRequired": "ஊர் தேவை",
+  "validation.amountRequired": "தொகை தேவை",
+  "validation.eventDateRequired": "நிகழ்வு தேதி தேவை",
+  "validation.eventNameRequired": "நிகழ்வின் பெயர் தேவை",
+  "validation.tooLong": "இது மிக நீளமாக உள்ளது",
+
+  "app.name": "மொய் செயலி",
+  "app.tagline": "உங்கள் வாடிக்கையாளர்களையும் பரிவர்த்தனைகளையும் நிர்வகிக்கவும்",
+  "app.logout": "வெளியேறு",
+  "app.loggedOut": "வெற்றிகரமாக வெளியேறினீர்கள்",
+  "app.logoutFailed": "வெளியேறுவதில் பிழை",
+
+  "auth.signIn": "உள்நுழை",
+  "auth.signUp": "பதிவு செய்",
+  "auth.email": "மின்னஞ்சல்",
+  "auth.password": "கடவுச்சொல்",
+  "auth.signedIn": "வெற்றிகரமாக உள்நுழைந்தீர்கள்!",
+  "auth.signedUp": "கணக்கு உருவாக்கப்பட்டது! உங்கள் மின்னஞ்சலைச் சரிபார்க்கவும்.",
+
+  "tabs.dashboard": "முகப்பு",
+  "tabs.customers": "வாடிக்கையாளர்கள்",
+  "tabs.events": "நிகழ்வுகள்",
+  "tabs.reciprocity": "பதில் மொய்",
+  "tabs.transactions": "பரிவர்த்தனை பதிவு",
+  "tabs.trash": "குப்பைத்தொட்டி",
+
+  "customers.title": "வாடிக்கையாளர் மேலாண்மை",
+  "customers.printRegister": "பதிவேட்டை அச்சிடு",
+  "customers.import": "இறக்குமதி",
+  "customers.create": "வாடிக்கையாளரைச் சேர்",
+  "customers.pendingAmount": "நிலுவைத் தொகை",
+  "customers.actions": "செயல்கள்",
+  "customers.filterId": "வாடிக்கையாளர் எண்ணால் வடிகட்டு...",
+  "customers.filterFirstName": "முதல் பெயரால் வடிகட்டு...",
+  "customers.filterLastName": "கடைசி பெயரால் வடிகட்டு...",
+  "customers.filterVillage": "ஊரால் வடிகட்டு...",
+  "customers.filterPageNo": "பக்க எண்ணால் வடிகட்டு...",
+  "customers.addTransaction": "பரிவர்த்தனை சேர்",
+  "customers.showing": "{total} வாடிக்கையாளர்களில் {from} முதல் {to} வரை",
+  "customers.perPage": "{size} / பக்கம்",
+  "customers.selected": "{count} தேர்ந்தெடுக்கப்பட்டது",
+  "customers.select": "{name} ஐத் தேர்ந்தெடு",
+  "customers.merge": "இணை",
+  "customers.clearSelection": "தேர்வை அழி",
+  "customers.pageOf": "பக்கம் {page} / {total}",
+  "customers.weOwe": "நாம் தர வேண்டியது",
+  "customers.suggestedReturn": "பரிந்துரைக்கும் பதில் மொய்",
+  "customers.editTransaction": "பரிவர்த்தனையைத் திருத்து",
+  "customers.newTransaction": "புதிய பரிவர்த்தனை சேர்",
+  "customers.amountPlaceholder": "தொகையை உள்ளிடவும் (செலவுக்கு கழித்தல் குறி)",
+  "customers.eventOptional": "விசேஷம் / நிகழ்வு (விருப்பம்)",
+  "customers.selectEvent": "நிகழ்வைத் தேர்ந்தெடுக்கவும்",
+  "customers.noEvent": "நிகழ்வு இல்லை",
+  "customers.notesOptional": "குறிப்புகள் (விருப்பம்)",
+  "customers.notesPlaceholder": "குறிப்புகளை உள்ளிடவும்",
+  "customers.editCustomer": "வாடிக்கையாளரைத் திருத்து",
+  "customers.newCustomer": "புதிய வாடிக்கையாளரைச் சேர்",
+  "customers.updateCustomer": "வாடிக்கையாளரைப் புதுப்பி",
+  "customers.pageNumber": "பக்க எண்",
+  "customers.pageNumberPlaceholder": "பக்க எண்ணை உள்ளிடவும்",
+  "customers.firstNamePlaceholder": "முதல் பெயரை உள்ளிடவும்",
+  "customers.lastNamePlaceholder": "கடைசி பெயரை உள்ளிடவும்",
+  "customers.villagePlaceholder": "ஊர் பெயரை உள்ளிடவும்",
+  "customers.customerNotesPlaceholder": "கூடுதல் குறிப்புகளை உள்ளிடவும்",
+  "customers.deleteTitle": "வாடிக்கையாளரை நீக்கு",
+  "customers.deleteConfirm": "{name} அவர்களைக் குப்பைத்தொட்டிக்கு நகர்த்தவா? அவருடைய பரிவர்த்தனைகளும் உடன் செல்லும்; குப்பைத்தொட்டியிலிருந்து இரண்டையும் மீட்கலாம்.",
+  "customers.fetchFailed": "வாடிக்கையாளர்களைப் பெற முடியவில்லை",
+  "customers.fetchOneFailed": "வாடிக்கையாளர் விவரத்தைப் பெற முடியவில்லை",
+  "customers.exported": "{count} வாடிக்கையாளர்கள் ஏற்றுமதி செய்யப்பட்டனர்",
+  "customers.exportFailed": "வாடிக்கையாளர்களை ஏற்றுமதி செய்ய முடியவில்லை",
+  "customers.created": "வாடிக்கையாளர் சேர்க்கப்பட்டார்",
+  "customers.updated": "வாடிக்கையாளர் விவரம் புதுப்பிக்கப்பட்டது",
+  "customers.createFailed": "வாடிக்கையாளரைச் சேர்க்க முடியவில்லை",
+  "customers.updateFailed": "வாடிக்கையாளர் விவரத்தைப் புதுப்பிக்க முடியவில்லை",
+  "customers.deleted": "வாடிக்கையாளர் குப்பைத்தொட்டிக்கு நகர்த்தப்பட்டார்",
+  "customers.deleteFailed": "வாடிக்கையாளரை நீக்க முடியவில்லை",
+  "customers.balance": "இருப்பு",
+
+  "transactions.title": "பரிவர்த்தனை வரலாறு",
+  "transactions.deleteTitle": "பரிவர்த்தனையை நீக்கு",
+  "transactions.deleteConfirm": "இந்தப் பரிவர்த்தனையைக் குப்பைத்தொட்டிக்கு நகர்த்தவா? குப்பைத்தொட்டியிலிருந்து மீட்கலாம்.",
+  "transactions.fetchFailed": "பரிவர்த்தனைகளைப் பெற முடியவில்லை",
+  "transactions.loadMoreFailed": "மேலும் பரிவர்த்தனைகளை ஏற்ற முடியவில்லை",
+  "transactions.created": "பரிவர்த்தனை சேர்க்கப்பட்டது",
+  "transactions.updated": "பரிவர்த்தனை புதுப்பிக்கப்பட்டது",
+  "transactions.deleted": "பரிவர்த்தனை குப்பைத்தொட்டிக்கு நகர்த்தப்பட்டது",
+  "transactions.createFailed": "பரிவர்த்தனையைச் சேர்க்க முடியவில்லை",
+  "transactions.updateFailed": "பரிவர்த்தனையைப் புதுப்பிக்க முடியவில்லை",
+  "transactions.deleteFailed": "பரிவர்த்தனையை நீக்க முடியவில்லை",
+  "transactions.exported": "{count} பரிவர்த்தனைகள் ஏற்றுமதி செய்யப்பட்டன",
+  "transactions.exportFailed": "பரிவர்த்தனைகளை ஏற்றுமதி செய்ய முடியவில்லை",
+  "transactions.clearFilters": "வடிகட்டிகளை அழி",
+  "transactions.search": "தேடல்",
+  "transactions.searchPlaceholder": "குறிப்புகள் அல்லது வாடிக்கையாளர் பெயர்...",
+  "transactions.from": "நிகழ்வு தேதி முதல்",
+  "transactions.to": "நிகழ்வு தேதி வரை",
+  "transactions.type": "வகை",
+  "transactions.all": "அனைத்தும்",
+  "transactions.credit": "வரவு",
+  "transactions.debit": "செலவு",
+  "transactions.amountRange": "தொகை வரம்பு",
+  "transactions.min": "குறைந்தது",
+  "transactions.max": "அதிகபட்சம்",
+  "transactions.sortBy": "வரிசைப்படுத்து",
+  "transactions.dateEntered": "பதிவு செய்த தேதி",
+  "transactions.eventDate": "நிகழ்வு தேதி",
+  "transactions.empty": "பரிவர்த்தனைகள் எதுவும் இல்லை",
+  "transactions.loadingMore": "மேலும் பரிவர்த்தனைகள் ஏற்றப்படுகின்றன...",
+  "transactions.villagePage": "{village} · பக்கம் {page}",
+  "transactions.showing": "{total} பரிவர்த்தனைகளில் {count} காட்டப்படுகின்றன",
+
+  "events.title": "விழாக்கள் & நிகழ்வுகள்",
+  "events.create": "நிகழ்வை உருவாக்கு",
+  "events.empty": "இன்னும் நிகழ்வுகள் இல்லை",
+  "events.event": "நிகழ்வு",
+  "events.type": "வகை",
+  "events.date": "தேதி",
+  "events.venue": "இடம்",
+  "events.host": "நடத்துபவர்",
+  "events.entries": "பதிவுகள்",
+  "events.actions": "செயல்கள்",
+  "events.printRegister": "பதிவேட்டை அச்சிடு",
+  "events.noEntries": "இந்த நிகழ்வில் மொய் எதுவும் பதிவாகவில்லை",
+  "events.unknownCustomer": "அறியப்படாத வாடிக்கையாளர்",
+  "events.loadMore": "மேலும் காட்டு",
+  "events.editEvent": "நிகழ்வைத் திருத்து",
+  "events.newEvent": "புதிய நிகழ்வை உருவாக்கு",
+  "events.name": "நிகழ்வின் பெயர்",
+  "events.namePlaceholder": "எ.கா. பிரியாவின் திருமணம்",
+  "events.venueOptional": "இடம் (விருப்பம்)",
+  "events.venuePlaceholder": "இடத்தை உள்ளிடவும்",
+  "events.hostOptional": "விழா நடத்தும் குடும்ப உறுப்பினர் (விருப்பம்)",
+  "events.hostPlaceholder": "இது யாருடைய விழா?",
+  "events.notesOptional": "குறிப்புகள் (விருப்பம்)",
+  "events.notesPlaceholder": "கூடுதல் குறிப்புகளை உள்ளிடவும்",
+  "events.deleteTitle": "நிகழ்வை நீக்கு",
+  "events.deleteConfirm": "{name} நிகழ்வை நீக்க வேண்டுமா? இந்த நிகழ்வில் பதிவான பரிவர்த்தனைகள் வைக்கப்படும், ஆனால் இனி அதனுடன் இணைக்கப்படாது.",
+  "events.fetchFailed": "நிகழ்வுகளைப் பெற முடியவில்லை",
+  "events.created": "நிகழ்வு வெற்றிகரமாக உருவாக்கப்பட்டது",
+  "events.updated": "நிகழ்வு வெற்றிகரமாக புதுப்பிக்கப்பட்டது",
+  "events.createFailed": "நிகழ்வை உருவாக்க முடியவில்லை",
+  "events.updateFailed": "நிகழ்வைப் புதுப்பிக்க முடியவில்லை",
+  "events.deleted": "நிகழ்வு வெற்றிகரமாக நீக்கப்பட்டது",
+  "events.deleteFailed": "நிகழ்வை நீக்க முடியவில்லை",
+
+  "eventType.wedding": "திருமணம்",
+  "eventType.engagement": "நிச்சயதார்த்தம்",
+  "eventType.house_warming": "புதுமனை புகுவிழா",
+  "eventType.ear_piercing": "காது குத்து",
+  "eventType.puberty": "மஞ்சள் நீராட்டு விழா",
+  "eventType.naming": "பெயர் சூட்டு விழா",
+  "eventType.funeral": "இறுதிச் சடங்கு",
+  "eventType.other": "மற்றவை",
+
+  "reciprocity.title": "நாம் இன்னும் பதில் மொய் செய்ய வேண்டிய குடும்பங்கள்",
+  "reciprocity.summary": "{count} குடும்பங்கள் · {amount} நிலுவை",
+  "reciprocity.upliftPercent": "கூடுதல் %",
+  "reciprocity.roundTo": "முழுமையாக்கும் அளவு",
+  "reciprocity.addOne": "₹1 சேர்",
+  "reciprocity.family": "குடும்பம்",
+  "reciprocity.lastReceived": "கடைசியாகப் பெற்றது",
+  "reciprocity.empty": "நிலுவையில் எதுவும் இல்லை",
+  "reciprocity.fetchFailed": "பதில் மொய் விவரங்களைப் பெற முடியவில்லை",
+
+  "import.title": "மொய் நோட்டை இறக்குமதி செய்",
+  "import.uploadHint": "ஒவ்வொரு வரிசையிலும் ஒரு பதிவும் தலைப்பு வரிசையும் கொண்ட CSV அல்லது Excel (.xlsx) கோப்பைப் பதிவேற்றவும்.",
+  "import.mapHint": "{file} கோப்பின் நெடுவரிசைகளைப் பதிவேட்டுப் புலங்களுடன் பொருத்தவும்.",
+  "import.previewHint": "இறக்குமதி செய்யும் முன் வரிசைகளைச் சரிபார்க்கவும். பிழையுள்ள வரிசைகள் தவிர்க்கப்படும்.",
+  "import.importingHint": "பதிவுகள் சேமிக்கப்படுகின்றன...",
+  "import.doneHint": "இறக்குமதி முடிந்தது.",
+  "import.needsHeader": "கோப்பில் தலைப்பு வரிசையும் குறைந்தது ஒரு பதிவும் தேவை",
+  "import.readFailed": "கோப்பைப் படிக்க முடியவில்லை",
+  "import.duplicateCheckFailed": "இரட்டைப் பதிவு வாடிக்கையாளர்களைச் சரிபார்க்க முடியவில்லை",
+  "import.failedPartway": "இறக்குமதி பாதியில் நின்றது. ஏற்கனவே சேமித்த வரிசைகள் வைக்கப்பட்டன; மீண்டும் இறக்குமதி செய்தால் அவை தவிர்க்கப்படும்.",
+  "import.notMapped": "— பொருத்தப்படவில்லை —",
+  "import.column": "நெடுவரிசை {number}",
+  "import.defaultDate": "தேதி இல்லாத வரிசைகளுக்கான நிகழ்வு தேதி",
+  "import.missingColumns": "இவற்றுக்கு நெடுவரிசையைப் பொருத்தவும்: {fields}",
+  "import.previewRows": "{count} வரிசைகளை முன்னோட்டமிடு",
+  "import.validRows": "{count} சரியான வரிசைகள்",
+  "import.withErrors": "{count} பிழையுடன்",
+  "import.newCustomers": "{count} புதிய வாடிக்கையாளர்கள்",
+  "import.matchExisting": "{count} வரிசைகள் ஏற்கனவே உள்ள வாடிக்கையாளர்களுடன் பொருந்துகின்றன",
+  "import.transactions": "{count} பரிவர்த்தனைகள்",
+  "import.mergeDuplicates": "ஒரே பெயரும் ஊரும் கொண்ட வரிசைகளை ஒரே வாடிக்கையாளராகக் கருது",
+  "import.line": "வரி",
+  "import.date": "தேதி",
+  "import.status": "நிலை",
+  "import.existingCustomer": "ஏற்கனவே உள்ள வாடிக்கையாளர்",
+  "import.repeatInFile": "கோப்பில் மீண்டும் வருகிறது",
+  "import.new": "புதியது",
+  "import.showingFirst": "{total} வரிசைகளில் முதல் {limit} காட்டப்படுகின்றன.",
+  "import.importRows": "{count} வரிசைகளை இறக்குமதி செய்",
+  "import.saved": "{progress}% சேமிக்கப்பட்டது",
+  "import.added": "{customers} வாடிக்கையாளர்களும் {transactions} பரிவர்த்தனைகளும் சேர்க்கப்பட்டன.",
+  "import.close": "மூடு",
+  "import.resume": "{date} அன்று தொடங்கிய {file} இறக்குமதியைத் தொடரவும்",
+  "import.resumeHint": "இதே கோப்புப் பெயரில் உள்ள வேறு நோட்டுப் புத்தகம் என்றால் இதை அணைக்கவும்.",
+  "import.alreadySaved": "{count} பதிவுகள் முந்தைய முயற்சியிலேயே சேமிக்கப்பட்டன; அவை மாற்றப்படவில்லை.",
+  "import.inTrash": "{count} பதிவுகள் குப்பைத்தொட்டியில் உள்ள வாடிக்கையாளர்கள் அல்லது மொய்களைச் சேர்ந்தவை, எனவே இறக்குமதி செய்யப்படவில்லை. முதலில் அவற்றை மீட்டெடுக்கவும்.",
+  "import.pageNotWhole": "பக்க எண் முழு எண்ணாக இருக்க வேண்டும்",
+  "import.amountNotNumber": "தொகை எண்ணாக இல்லை",
+  "import.dateInvalid": "நிகழ்வு தேதி சரியான தேதி அல்ல",
+
+  "metrics.title": "முகப்பு கண்ணோட்டம்",
+  "metrics.subtitle": "{period} உங்கள் மொய், முந்தைய காலத்துடன் ஒப்பிட்டு",
+  "metrics.tamilMonth": "{month} மாதம்",
+  "metrics.period": "காலம்",
+  "metrics.from": "முதல்",
+  "metrics.to": "வரை",
+  "metrics.dateBy": "தேதி அடிப்படை",
+  "metrics.netAmount": "நிகரத் தொகை",
+  "metrics.entries": "பதிவுகள்",
+  "metrics.totalCustomers": "மொத்த வாடிக்கையாளர்கள்",
+  "metrics.activeCustomers": "செயலில் உள்ள வாடிக்கையாளர்கள்",
+  "metrics.creditAmount": "வரவுத் தொகை",
+  "metrics.debitAmount": "செலவுத் தொகை",
+  "metrics.noChange": "முந்தைய காலத்தை விட மாற்றமில்லை",
+  "metrics.nothingPrevious": "முந்தைய காலத்தில் எதுவும் இல்லை",
+  "metrics.change": "முந்தைய காலத்தை விட {change}%",
+  "metrics.fetchFailed": "முகப்பு விவரங்களைப் பெற முடியவில்லை",
+
+  "period.week": "இந்த வாரம்",
+  "period.month": "இந்த மாதம்",
+  "period.tamil_month": "இந்தத் தமிழ் மாதம்",
+  "period.year": "இந்த ஆண்டு",
+  "period.custom": "தனிப்பயன் காலம்",
+
+  "charts.monthly": "மாதாந்திர வரவு / செலவு",
+  "charts.balance": "ஒட்டுமொத்த இருப்பு",
+  "charts.villages": "முன்னணி ஊர்கள்",
+  "charts.amounts": "மொய் தொகைகள்",
+  "charts.empty": "இந்தக் காலத்தில் பரிவர்த்தனைகள் இல்லை",
+  "charts.balanceLabel": "இருப்பு",
+  "charts.entriesLabel": "பதிவுகள்",
+  "charts.fetchFailed": "வரைபடத் தரவைப் பெற முடியவில்லை",
+
+  "register.title": "மொய் பதிவேடு",
+  "register.print": "அச்சிடு / PDF ஆகச் சேமி",
+  "register.filteredBy": "வடிகட்டல்: {filters}",
+  "register.allEntries": "எல்லாப் பதிவுகளும்",
+  "register.empty": "அச்சிட பதிவுகள் இல்லை",
+  "register.page": "பக்கம் {page}",
+  "register.serial": "வ.எண்",
+  "register.date": "தேதி",
+  "register.amountInWords": "தொகை (எழுத்தில்)",
+  "register.returned": "(திருப்பியது)",
+  "register.pageTotal": "பக்கம் {page} மொத்தம்",
+  "register.grandTotal": "மொத்தம் ({count} பதிவுகள்)",
+  "register.loadFailed": "பதிவேட்டை ஏற்ற முடியவில்லை",
+  "register.noLedger": "எந்தப் பேரேட்டை அச்சிட வேண்டும் என்று இந்த இணைப்பில் இல்லை. டாஷ்போர்டிலிருந்து பதிவேட்டை மீண்டும் திறக்கவும்.",
+
+  "offline.offline": "இணைப்பு இல்லை",
+  "offline.pending": "{count} ஒத்திசைக்கக் காத்திருக்கின்றன",
+  "offline.syncNow": "இப்போது ஒத்திசை",
+  "offline.syncing": "ஒத்திசைக்கிறது…",
+  "offline.queued": "இந்த சாதனத்தில் சேமிக்கப்பட்டது. இணைப்பு வந்ததும் ஒத்திசைக்கப்படும்.",
+  "offline.synced": "{count} பதிவுகள் ஒத்திசைக்கப்பட்டன",
+  "offline.syncFailed": "{count} பதிவுகளை ஒத்திசைக்க முடியவில்லை",
+  "offline.pendingBadge": "நிலுவையில்",
+  "offline.failedBadge": "ஒத்திசைக்கப்படவில்லை",
+  "offline.discard": "கைவிடு",
+  "offline.discarded": "இந்த சாதனத்திலிருந்து நீக்கப்பட்டது",
+
+  "pwa.updateAvailable": "புதிய பதிப்பு கிடைக்கிறது",
+  "pwa.reload": "மீண்டும் ஏற்று",
+  "pwa.offlineReady": "இணைப்பு இல்லாமலும் திறக்கத் தயார்",
+
+  "ledger.label": "பேரேடு",
+  "ledger.manage": "பேரேட்டை நிர்வகி",
+  "ledger.manageDescription": "இந்தப் பேரேட்டை உங்கள் குடும்பத்துடன் பகிருங்கள். சேரும் அனைவரும் ஒரே வாடிக்கையாளர்களையும் மொய்யையும் பார்ப்பார்கள்.",
+  "ledger.name": "பேரேட்டின் பெயர்",
+  "ledger.saveName": "பெயரைச் சேமி",
+  "ledger.renamed": "பேரேட்டின் பெயர் மாற்றப்பட்டது",
+  "ledger.members": "உறுப்பினர்கள்",
+  "ledger.you": "(நீங்கள்)",
+  "ledger.role": "பங்கு",
+  "ledger.role.owner": "உரிமையாளர்",
+  "ledger.role.editor": "திருத்துநர்",
+  "ledger.role.helper": "உதவியாளர்",
+  "ledger.role.viewer": "பார்வையாளர்",
+  "ledger.roleHint.owner": "உரிமையாளர்கள் உறுப்பினர்களை நிர்வகிப்பது உட்பட அனைத்தையும் செய்யலாம்.",
+  "ledger.roleHint.editor": "திருத்துநர்கள் பதிவுகளைச் சேர்க்கலாம், திருத்தலாம், நீக்கலாம்.",
+  "ledger.roleHint.helper": "உதவியாளர்கள் மொய் வசூல் திரையிலிருந்து புதிய பதிவுகளை மட்டும் சேர்க்கலாம்.",
+  "ledger.roleHint.viewer": "பார்வையாளர்கள் பார்க்கலாம், எதையும் மாற்ற முடியாது.",
+  "ledger.roleChanged": "பங்கு மாற்றப்பட்டது",
+  "ledger.remove": "நீக்கு",
+  "ledger.removed": "உறுப்பினர் நீக்கப்பட்டார்",
+  "ledger.leave": "பேரேட்டிலிருந்து விலகு",
+  "ledger.left": "நீங்கள் பேரேட்டிலிருந்து விலகினீர்கள்",
+  "ledger.invite": "மின்னஞ்சல் மூலம் அழை",
+  "ledger.inviteHint": "இந்த மின்னஞ்சலுடன் உள்நுழையும்போது அழைப்பைப் பார்ப்பார்கள்.",
+  "ledger.inviteButton": "அழை",
+  "ledger.invited": "{email} க்கு அழைப்பு அனுப்பப்பட்டது",
+  "ledger.invalidEmail": "சரியான மின்னஞ்சல் முகவரியை உள்ளிடவும்",
+  "ledger.pendingInvitations": "நிலுவையில் உள்ள அழைப்புகள்",
+  "ledger.revoke": "திரும்பப் பெறு",
+  "ledger.revoked": "அழைப்பு திரும்பப் பெறப்பட்டது",
+  "ledger.new": "புதிய பேரேடு",
+  "ledger.newPlaceholder": "எ.கா. பெற்றோர் பேரேடு",
+  "ledger.created": "பேரேடு உருவாக்கப்பட்டது",
+  "ledger.invitation": "{inviter} உங்களை “{ledger}” பேரேட்டைப் பகிர அழைத்துள்ளார்",
+  "ledger.join": "சேர்",
+  "ledger.decline": "மறு",
+  "ledger.joined": "நீங்கள் {ledger} இல் சேர்ந்தீர்கள்",
+  "ledger.actionFailed": "பேரேட்டைப் புதுப்பிக்க முடியவில்லை",
+  "ledger.loadFailed": "உங்கள் பேரேடுகளை ஏற்ற முடியவில்லை",
+  "ledger.loadFailedDescription": "இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.",
+  "ledger.retry": "மீண்டும் முயற்சி",
+  "ledger.emptyTitle": "தொடங்க ஒரு பேரேட்டை உருவாக்கவும்",
+  "ledger.emptyDescription": "நீங்கள் இன்னும் எந்தப் பேரேட்டிலும் இல்லை. உங்கள் குடும்பத்துக்கு ஒன்றை உருவாக்கவும், அல்லது உங்களை அழைத்த பேரேட்டில் சேரவும்.",
+
+  "entry.title": "மொய் வசூல்",
+  "entry.description": "மொய் செய்பவரைத் தேடுங்கள், புதியவர் என்றால் சேர்த்து, அவரது மொய்யைப் பதிவு செய்யுங்கள்.",
+  "entry.newCustomer": "புதிய வாடிக்கையாளர்",
+  "entry.noMatches": "பொருந்தும் வாடிக்கையாளர்கள் இல்லை",
+  "entry.change": "மாற்று",
+  "entry.pickCustomer": "முதலில் வாடிக்கையாளரைத் தேர்ந்தெடுக்கவும்",
+  "entry.save": "மொய்யைச் சேமி",
+  "entry.recorded": "இங்கு பதிவானவை",
+  "entry.recordedEmpty": "நீங்கள் சேமிக்கும் மொய் இங்கே பட்டியலிடப்படும்.",
+
+  "history.title": "வரலாறு",
+  "history.customerTitle": "{name} வரலாறு",
+  "history.transactionTitle": "பரிவர்த்தனை வரலாறு",
+  "history.description": "ஒவ்வொரு மாற்றமும் யார், எப்போது செய்தார்கள் என்பதுடன் பதிவாகிறது. இந்தப் பதிவைத் திருத்த முடியாது.",
+  "history.empty": "இதுவரை மாற்றங்கள் எதுவும் பதிவாகவில்லை",
+  "history.created": "உருவாக்கப்பட்டது",
+  "history.changed": "மாற்றப்பட்டது",
+  "history.deleted": "நீக்கப்பட்டது",
+  "history.restored": "மீட்கப்பட்டது",
+  "history.purged": "நிரந்தரமாக நீக்கப்பட்டது",
+  "history.merged": "இணைக்கப்பட்டது",
+  "history.mergedFrom": "{name} இலிருந்து இணைக்கப்பட்டது",
+  "history.customer": "வாடிக்கையாளர் விவரங்கள்",
+  "history.customerField": "வாடிக்கையாளர்",
+  "history.transaction": "{amount} மொய்",
+  "history.event": "நிகழ்வு",
+  "history.unknownUser": "அமைப்பு",
+  "history.fetchFailed": "வரலாற்றை ஏற்ற முடியவில்லை",
+
+  "trash.title": "குப்பைத்தொட்டி",
+  "trash.description": "நீக்கப்பட்ட வாடிக்கையாளர்களும் பரிவர்த்தனைகளும் மீட்கப்படும் வரை அல்லது நிரந்தரமாக நீக்கப்படும் வரை இங்கே இருக்கும்.",
+  "trash.customers": "வாடிக்கையாளர்கள்",
+  "trash.transactions": "பரிவர்த்தனைகள்",
+  "trash.emptyCustomers": "நீக்கப்பட்ட வாடிக்கையாளர்கள் இல்லை",
+  "trash.emptyTransactions": "நீக்கப்பட்ட பரிவர்த்தனைகள் இல்லை",
+  "trash.deletedAt": "நீக்கிய நேரம்",
+  "trash.restore": "மீட்டெடு",
+  "trash.purge": "நிரந்தரமாக நீக்கு",
+  "trash.restored": "குப்பைத்தொட்டியிலிருந்து மீட்கப்பட்டது",
+  "trash.restoreFailed": "மீட்க முடியவில்லை",
+  "trash.purged": "நிரந்தரமாக நீக்கப்பட்டது",
+  "trash.purgeFailed": "நிரந்தரமாக நீக்க முடியவில்லை",
+  "trash.purgeTitle": "நிரந்தரமாக நீக்கு",
+  "trash.purgeCustomerConfirm": "{name} அவர்களையும் அவருடைய எல்லாப் பரிவர்த்தனைகளையும் நிரந்தரமாக நீக்கவா? இதைத் திரும்பப் பெற முடியாது.",
+  "trash.purgeTransactionConfirm": "இந்தப் பரிவர்த்தனையை நிரந்தரமாக நீக்கவா? இதைத் திரும்பப் பெற முடியாது.",
+  "trash.fetchFailed": "குப்பைத்தொட்டியை ஏற்ற முடியவில்லை",
+
+  "merge.title": "{count} வாடிக்கையாளர்களை இணை",
+  "merge.description": "ஒரே குடும்பத்தின் இரட்டைப் பதிவுகளை ஒரே வாடிக்கையாளராக இணைக்கவும். எல்லா மொய்யும் நிலைக்கும் வாடிக்கையாளருக்கு மாறும்; மற்றவர்கள் நீக்கப்படுவார்கள்.",
+  "merge.survivor": "இந்த வாடிக்கையாளரை வைத்திரு",
+  "merge.fields": "வைத்திருக்க வேண்டிய விவரங்கள்",
+  "merge.summary": "இணைத்த பின் மொத்த இருப்பு: {balance}",
+  "merge.confirm": "இணை",
+  "merge.merged": "{count} வாடிக்கையாளர்கள் இணைக்கப்பட்டனர்",
+  "merge.failed": "வாடிக்கையாளர்களை இணைக்க முடியவில்லை",
+};
+
+export default ta;
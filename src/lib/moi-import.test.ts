@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportRows,
+  ColumnMapping,
+  customerMatchKey,
+  guessMapping,
+  importRowId,
+  parseImportAmount,
+  parseImportDate,
+} from "@/lib/moi-import";
+
+const mapping: ColumnMapping = {
+  page_no: 0,
+  first_name: 1,
+  last_name: 2,
+  village_name: 3,
+  amount: 4,
+  event_date: 5,
+  notes: 6,
+};
+
+describe("guessMapping", () => {
+  it("matches English and Tamil headers regardless of case and separators", () => {
+    expect(guessMapping(["Page_No", "First Name", "INITIAL", "village", "Moi", "Event-Date", "Remarks"])).toEqual(mapping);
+    expect(guessMapping(["பக்கம்", "பெயர்", "கடைசி பெயர்", "ஊர்", "தொகை", "தேதி", "குறிப்புகள்"])).toEqual(mapping);
+  });
+
+  it("leaves unknown columns unmapped", () => {
+    expect(guessMapping(["Name", "Something else"])).toMatchObject({ first_name: 0, page_no: null, amount: null });
+  });
+});
+
+describe("parseImportAmount", () => {
+  it("accepts grouped, rupee-marked and signed amounts", () => {
+    expect(parseImportAmount("1,001")).toBe(1001);
+    expect(parseImportAmount("₹ 1,00,001")).toBe(100001);
+    expect(parseImportAmount("Rs. 501")).toBe(501);
+    expect(parseImportAmount("-500")).toBe(-500);
+    expect(parseImportAmount(250)).toBe(250);
+  });
+
+  it("returns null for blanks and text", () => {
+    expect(parseImportAmount("")).toBeNull();
+    expect(parseImportAmount("five hundred")).toBeNull();
+  });
+});
+
+describe("parseImportDate", () => {
+  it("accepts ISO and Indian day-first dates", () => {
+    expect(parseImportDate("2024-03-05")).toBe("2024-03-05");
+    expect(parseImportDate("05/03/2024")).toBe("2024-03-05");
+    expect(parseImportDate("5.3.24")).toBe("2024-03-05");
+    expect(parseImportDate(new Date(2024, 2, 5))).toBe("2024-03-05");
+  });
+
+  it("rejects dates that do not exist", () => {
+    expect(parseImportDate("31/02/2024")).toBeNull();
+    expect(parseImportDate("2024-13-01")).toBeNull();
+    expect(parseImportDate("yesterday")).toBeNull();
+  });
+});
+
+describe("customerMatchKey", () => {
+  it("ignores case and extra spaces", () => {
+    expect(customerMatchKey(" Murugan ", "K", "Madurai  East")).toBe(customerMatchKey("murugan", "k", "madurai east"));
+  });
+});
+
+describe("importRowId", () => {
+  it("derives the same UUID from the same seed", async () => {
+    const id = await importRowId("ledger|file.csv|2");
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(await importRowId("ledger|file.csv|2")).toBe(id);
+    expect(await importRowId("ledger|file.csv|3")).not.toBe(id);
+  });
+});
+
+describe("buildImportRows", () => {
+  it("reads a valid row and numbers lines after the header", () => {
+    const [row] = buildImportRows([["12", "Murugan", "K", "Madurai", "1,001", "05/03/2024", "Wedding"]], mapping, "2024-01-01");
+    expect(row).toEqual({
+      line: 2,
+      pageNo: "12",
+      firstName: "Murugan",
+      lastName: "K",
+      villageName: "Madurai",
+      notes: "Wedding",
+      amount: 1001,
+      eventDate: "2024-03-05",
+      errors: [],
+    });
+  });
+
+  it("falls back to the default date when the row has none", () => {
+    const [row] = buildImportRows([["12", "Murugan", "K", "Madurai", "501", "", ""]], mapping, "2024-01-01");
+    expect(row.eventDate).toBe("2024-01-01");
+    expect(row.errors).toEqual([]);
+  });
+
+  it("reports what is wrong as translation keys", () => {
+    const [missing, badPage, badAmount, badDate] = buildImportRows(
+      [
+        ["12", "", "K", "Madurai", "", "", ""],
+        ["12a", "Murugan", "K", "Madurai", "", "", ""],
+        ["12", "Murugan", "K", "Madurai", "lots", "", ""],
+        ["12", "Murugan", "K", "Madurai", "501", "31/02/2024", ""],
+      ],
+      mapping,
+      "2024-01-01"
+    );
+    expect(missing.errors).toEqual(["validation.firstNameRequired"]);
+    expect(badPage.errors).toEqual(["import.pageNotWhole"]);
+    expect(badAmount.errors).toEqual(["import.amountNotNumber"]);
+    expect(badDate.errors).toContain("import.dateInvalid");
+  });
+
+  it("treats a row without an amount as a customer only", () => {
+    const [row] = buildImportRows([["7", "Selvi", "R", "Theni", "", "garbage", ""]], mapping, "");
+    expect(row.amount).toBeNull();
+    expect(row.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { customerSchema, transactionSchema } from "@/lib/schemas";
+import { TranslationKey } from "@/lib/i18n";
+
+export type ImportCell = string | number | boolean | Date | null | undefined;
+
+export type ImportField = "page_no" | "first_name" | "last_name" | "village_name" | "amount" | "event_date" | "notes";
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Aliases include the Tamil export headers, so an exported file imports as it is
+export const importFields: { key: ImportField; label: TranslationKey; required: boolean; aliases: string[] }[] = [
+  { key: "page_no", label: "common.pageNo", required: true, aliases: ["page", "page no", "pageno", "page number", "பக்கம்", "பக்க எண்"] },
+  { key: "first_name", label: "common.firstName", required: true, aliases: ["first name", "firstname", "name", "பெயர்", "முதல் பெயர்"] },
+  { key: "last_name", label: "common.lastName", required: true, aliases: ["last name", "lastname", "surname", "initial", "initials", "கடைசி பெயர்"] },
+  { key: "village_name", label: "common.village", required: true, aliases: ["village", "village name", "place", "town", "ஊர்"] },
+  { key: "amount", label: "common.amount", required: false, aliases: ["amount", "moi", "rs", "rupees", "தொகை"] },
+  { key: "event_date", label: "common.eventDate", required: false, aliases: ["date", "event date", "eventdate", "தேதி", "நிகழ்வு தேதி"] },
+  { key: "notes", label: "common.notes", required: false, aliases: ["notes", "note", "remarks", "comments", "குறிப்புகள்"] },
+];
+
+export interface ImportRow {
+  /** 1-based line in the source file, counting the header row */
+  line: number;
+  pageNo: string;
+  firstName: string;
+  lastName: string;
+  villageName: string;
+  notes: string;
+  amount: number | null;
+  eventDate: string | null;
+  /** Translation keys for what is wrong with the row */
+  errors: TranslationKey[];
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ");
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  importFields.forEach((field) => {
+    const index = normalized.findIndex((header) => field.aliases.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+  });
+
+  return mapping;
+}
+
+const toIsoDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export function cellToString(value: ImportCell) {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return toIsoDate(value);
+  return String(value).trim();
+}
+
+/** Accepts "1,001", "₹ 1001", "-500" and plain numbers */
+export function parseImportAmount(value: ImportCell): number | null {
+  if (typeof value === "number") return value;
+  const cleaned = cellToString(value).replace(/[₹,\s]|rs\.?/gi, "");
+  if (cleaned === "") return null;
+  const amount = Number(cleaned);
+  return isNaN(amount) ? null : amount;
+}
+
+/** Accepts spreadsheet dates, YYYY-MM-DD and the Indian DD/MM/YYYY (also with - or .) */
+export function parseImportDate(value: ImportCell): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : toIsoDate(value);
+
+  const text = cellToString(value);
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const indian = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (indian) {
+    [day, month, year] = [Number(indian[1]), Number(indian[2]), Number(indian[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return toIsoDate(date);
+}
+
+/** Identity used to spot the same family entered more than once */
+export function customerMatchKey(firstName: string, lastName: string, villageName: string) {
+  return [firstName, lastName, villageName]
+    .map((part) => part.trim().toLowerCase().replace(/\s+/g, " "))
+    .join("|");
+}
+
+/**
+ * A UUID derived from the seed (the import batch and the row), so retrying an
+ * interrupted batch gives each row the id it got before and finds what was saved
+ */
+export async function importRowId(seed: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(seed)));
+  // Name-based version and RFC 4122 variant bits, as in a version 5 UUID
+  digest[6] = (digest[6] & 0x0f) | 0x50;
+  digest[8] = (digest[8] & 0x3f) | 0x80;
+  const hex = Array.from(digest.slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function buildImportRows(data: ImportCell[][], mapping: ColumnMapping, defaultEventDate: string): ImportRow[] {
+  const cell = (row: ImportCell[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? undefined : row[index];
+  };
+
+  return data.map((row, index) => {
+    const errors: TranslationKey[] = [];
+    const values = {
+      pageNo: cellToString(cell(row, "page_no")),
+      firstName: cellToString(cell(row, "first_name")),
+      lastName: cellToString(cell(row, "last_name")),
+      villageName: cellToString(cell(row, "village_name")),
+      notes: cellToString(cell(row, "notes")),
+    };
+
+    const customerResult = customerSchema.safeParse(values);
+    if (!customerResult.success) {
+      errors.push(...customerResult.error.issues.map((issue) => issue.message as TranslationKey));
+    } else if (!/^\d+$/.test(values.pageNo)) {
+      errors.push("import.pageNotWhole");
+    }
+
+    const amountCell = cell(row, "amount");
+    const hasAmount = cellToString(amountCell) !== "";
+    const amount = hasAmount ? parseImportAmount(amountCell) : null;
+    const dateCell = cell(row, "event_date");
+    const eventDate = cellToString(dateCell) !== "" ? parseImportDate(dateCell) : parseImportDate(defaultEventDate);
+
+    if (hasAmount) {
+      const transactionResult = transactionSchema.safeParse({
+        amount: cellToString(amountCell),
+        eventDate: eventDate ?? "",
+        notes: values.notes,
+      });
+      if (!transactionResult.success) {
+        errors.push(...transactionResult.error.issues.map((issue) => issue.message as TranslationKey));
+      }
+      if (amount === null) {
+        errors.push("import.amountNotNumber");
+      }
+      if (cellToString(dateCell) !== "" && eventDate === null) {
+        errors.push("import.dateInvalid");
+      }
+    }
+
+    return {
+      line: index + 2,
+      ...values,
+      amount,
+      eventDate,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,123 @@
+import { supabase } from "@/integrations/supabase/client";
+import { createCustomer, createTransaction, Customer, CustomerInput, TransactionInput } from "@/lib/repository";
+
+/**
+ * A create that can wait on this device until the network is back. Ids are
+ * generated on the client, so pushing the same entry twice is harmless: the
+ * second insert hits the primary key and counts as already synced.
+ */
+export type LedgerCreate =
+  | { kind: "customer"; id: string; ledgerId: string; input: CustomerInput }
+  | { kind: "transaction"; id: string; ledgerId: string; customerId: string; input: TransactionInput };
+
+export type QueuedEntry = LedgerCreate & {
+  userId: string;
+  queuedAt: string;
+  /** Why the server refused the entry on the last attempt; retried on every sync */
+  error?: string;
+};
+
+export type QueuedCustomer = Extract<QueuedEntry, { kind: "customer" }>;
+export type QueuedTransaction = Extract<QueuedEntry, { kind: "transaction" }>;
+
+/** A customer waiting to sync has no balance yet; their queued moi is listed separately */
+export function toQueuedCustomer(entry: QueuedCustomer): Customer {
+  return {
+    id: entry.id,
+    firstName: entry.input.firstName,
+    lastName: entry.input.lastName,
+    villageName: entry.input.villageName,
+    pendingAmount: 0,
+    createdDate: entry.queuedAt,
+    pageNo: entry.input.pageNo,
+    notes: entry.input.notes || undefined,
+  };
+}
+
+const DB_NAME = "moi-offline";
+const DB_VERSION = 1;
+const STORE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "id" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/** Queued entries in the order they were made, so a new customer syncs before their moi */
+export async function listQueued(userId: string) {
+  const entries = await run("readonly", (store) => store.getAll() as IDBRequest<QueuedEntry[]>);
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function putQueued(entry: QueuedEntry) {
+  await run("readwrite", (store) => store.put(entry));
+}
+
+export async function removeQueued(id: string) {
+  await run("readwrite", (store) => store.delete(id));
+}
+
+// PostgREST reports a failed fetch with an empty code; anything the server answered has one
+const isNetworkError = (error: unknown) =>
+  typeof error === "object" && error !== null && "code" in error && !error.code;
+
+const isDuplicateId = (error: unknown) =>
+  typeof error === "object" && error !== null && "code" in error && error.code === "23505"
+  && "message" in error && String(error.message).includes("_pkey");
+
+/**
+ * Whether there is a session to send with the insert. An access token that
+ * expired while offline cannot be refreshed until the network is back, which
+ * is no reason to drop the entry.
+ */
+const hasSession = async () => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    return !!session;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sends one create to the server. Resolves "offline" when it could not be
+ * delivered and should stay queued; throws when the server refused it.
+ */
+export async function pushEntry(entry: LedgerCreate): Promise<"synced" | "offline"> {
+  if (!navigator.onLine || !await hasSession()) return "offline";
+
+  try {
+    if (entry.kind === "customer") {
+      await createCustomer(entry.ledgerId, entry.input, entry.id);
+    } else {
+      await createTransaction(entry.ledgerId, entry.customerId, entry.input, entry.id);
+    }
+    return "synced";
+  } catch (error) {
+    if (isDuplicateId(error)) return "synced";
+    if (isNetworkError(error)) return "offline";
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { getPeriodRange, getTamilMonth } from "@/lib/periods";
+
+describe("getTamilMonth", () => {
+  it("finds the month that began most recently", () => {
+    const month = getTamilMonth(new Date(2024, 3, 20));
+    expect(month.name).toBe("Chithirai");
+    expect(month.start).toEqual(new Date(2024, 3, 14));
+    expect(month.end).toEqual(new Date(2024, 4, 15));
+  });
+
+  it("places early January in the previous year's Margazhi", () => {
+    const month = getTamilMonth(new Date(2024, 0, 5));
+    expect(month.name).toBe("Margazhi");
+    expect(month.start).toEqual(new Date(2023, 11, 16));
+    expect(month.end).toEqual(new Date(2024, 0, 14));
+  });
+});
+
+describe("getPeriodRange", () => {
+  const now = new Date(2024, 5, 12, 15, 30);
+
+  it("runs the calendar periods up to now", () => {
+    expect(getPeriodRange("week", undefined, now)).toEqual({ start: new Date(2024, 5, 10), end: now });
+    expect(getPeriodRange("month", undefined, now)).toEqual({ start: new Date(2024, 5, 1), end: now });
+    expect(getPeriodRange("year", undefined, now)).toEqual({ start: new Date(2024, 0, 1), end: now });
+  });
+
+  it("includes the whole of a custom range's last day", () => {
+    expect(getPeriodRange("custom", { from: "2024-01-01", to: "2024-01-31" }, now)).toEqual({
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 1, 1),
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { addDays, startOfMonth, startOfWeek, startOfYear } from "date-fns";
+
+export type PeriodKey = "week" | "month" | "tamil_month" | "year" | "custom";
+
+export type DateBasis = "event_date" | "created_date";
+
+/** Half-open range: start is inclusive, end is exclusive */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export const periodKeys: PeriodKey[] = ["week", "month", "tamil_month", "year", "custom"];
+
+/**
+ * Tamil solar months begin when the sun enters the next sign, which falls on
+ * roughly the same Gregorian day each year (give or take a day). Listed in
+ * Gregorian order starting with Thai in January.
+ */
+const tamilMonths: { name: string; tamilName: string; month: number; day: number }[] = [
+  { name: "Thai", tamilName: "தை", month: 0, day: 14 },
+  { name: "Maasi", tamilName: "மாசி", month: 1, day: 13 },
+  { name: "Panguni", tamilName: "பங்குனி", month: 2, day: 15 },
+  { name: "Chithirai", tamilName: "சித்திரை", month: 3, day: 14 },
+  { name: "Vaikasi", tamilName: "வைகாசி", month: 4, day: 15 },
+  { name: "Aani", tamilName: "ஆனி", month: 5, day: 15 },
+  { name: "Aadi", tamilName: "ஆடி", month: 6, day: 17 },
+  { name: "Aavani", tamilName: "ஆவணி", month: 7, day: 17 },
+  { name: "Purattasi", tamilName: "புரட்டாசி", month: 8, day: 17 },
+  { name: "Aippasi", tamilName: "ஐப்பசி", month: 9, day: 18 },
+  { name: "Karthigai", tamilName: "கார்த்திகை", month: 10, day: 17 },
+  { name: "Margazhi", tamilName: "மார்கழி", month: 11, day: 16 },
+];
+
+export function getTamilMonth(date: Date): { name: string; tamilName: string; start: Date; end: Date } {
+  const year = date.getFullYear();
+  const starts = [
+    { ...tamilMonths[tamilMonths.length - 1], year: year - 1 },
+    ...tamilMonths.map((m) => ({ ...m, year })),
+    { ...tamilMonths[0], year: year + 1 },
+  ].map((m) => ({ name: m.name, tamilName: m.tamilName, start: new Date(m.year, m.month, m.day) }));
+
+  let index = 0;
+  while (starts[index + 1].start <= date) {
+    index += 1;
+  }
+  const { name, tamilName, start } = starts[index];
+  return { name, tamilName, start, end: starts[index + 1].start };
+}
+
+/**
+ * Returns the period up to now (or the full custom range), so comparisons
+ * against the previous period cover the same number of days.
+ */
+export function getPeriodRange(period: PeriodKey, custom?: { from: string; to: string }, now = new Date()): DateRange {
+  switch (period) {
+    case "week":
+      return { start: startOfWeek(now, { weekStartsOn: 1 }), end: now };
+    case "month":
+      return { start: startOfMonth(now), end: now };
+    case "tamil_month":
+      return { start: getTamilMonth(now).start, end: now };
+    case "year":
+      return { start: startOfYear(now), end: now };
+    case "custom": {
+      const start = custom?.from ? new Date(`${custom.from}T00:00:00`) : startOfMonth(now);
+      const end = custom?.to ? addDays(new Date(`${custom.to}T00:00:00`), 1) : now;
+      return { start, end };
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { defaultUpliftRule, suggestReturnAmount } from "@/lib/reciprocity";
+
+describe("suggestReturnAmount", () => {
+  it("adds the uplift, rounds and adds the auspicious rupee", () => {
+    expect(suggestReturnAmount(1000, defaultUpliftRule)).toBe(1101);
+    expect(suggestReturnAmount(501, { percent: 0, roundTo: 100, addOne: true })).toBe(501);
+  });
+
+  it("suggests nothing when nothing is owed", () => {
+    expect(suggestReturnAmount(0, defaultUpliftRule)).toBe(0);
+    expect(suggestReturnAmount(-200, defaultUpliftRule)).toBe(0);
+  });
+
+  it("never suggests less than what is owed", () => {
+    expect(suggestReturnAmount(1040, { percent: 0, roundTo: 100, addOne: false })).toBe(1100);
+  });
+
+  it("treats a zero rounding step as whole rupees", () => {
+    expect(suggestReturnAmount(333, { percent: 10, roundTo: 0, addOne: false })).toBe(366);
+  });
+});
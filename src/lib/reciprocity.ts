@@ -0,0 +1,32 @@
+export interface UpliftRule {
+  /** Percentage added on top of what the family gave us */
+  percent: number;
+  /** Suggested amounts are rounded to the nearest multiple of this */
+  roundTo: number;
+  /** Add the customary auspicious ₹1 (₹1,001 rather than ₹1,000) */
+  addOne: boolean;
+}
+
+export const defaultUpliftRule: UpliftRule = {
+  percent: 10,
+  roundTo: 100,
+  addOne: true,
+};
+
+/**
+ * Suggests how much to give back to a family that still has an outstanding
+ * balance with us. Never suggests less than what is owed.
+ */
+export function suggestReturnAmount(outstanding: number, rule: UpliftRule) {
+  if (outstanding <= 0) return 0;
+
+  const roundTo = rule.roundTo > 0 ? rule.roundTo : 1;
+  const uplifted = outstanding * (1 + rule.percent / 100);
+  let suggested = Math.round(uplifted / roundTo) * roundTo + (rule.addOne ? 1 : 0);
+
+  while (suggested < outstanding) {
+    suggested += roundTo;
+  }
+
+  return suggested;
+}
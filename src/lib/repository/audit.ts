@@ -0,0 +1,30 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<"audit_log">;
+
+/** Changes to a customer and to every moi recorded against them, newest first */
+export async function listCustomerHistory(customerId: string): Promise<AuditEntry[]> {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("*")
+    .eq("customer_id", customerId)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listTransactionHistory(transactionId: string): Promise<AuditEntry[]> {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("*")
+    .eq("table_name", "transactions")
+    .eq("record_id", transactionId)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
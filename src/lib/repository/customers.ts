@@ -0,0 +1,254 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Customer, escapeLike, ID_LOOKUP_SIZE, toCustomer } from "./types";
+
+export interface TrashedCustomer extends Customer {
+  deletedAt: string;
+}
+
+export interface CustomerFilters {
+  id: string;
+  firstName: string;
+  lastName: string;
+  villageName: string;
+  pageNo: string;
+}
+
+export const emptyCustomerFilters: CustomerFilters = {
+  id: "",
+  firstName: "",
+  lastName: "",
+  villageName: "",
+  pageNo: "",
+};
+
+export type CustomerSortKey = "page_no" | "first_name" | "last_name" | "village_name" | "pending_amount" | "created_date";
+
+export interface CustomerSort {
+  key: CustomerSortKey;
+  ascending: boolean;
+}
+
+export interface CustomerInput {
+  pageNo: number;
+  firstName: string;
+  lastName: string;
+  villageName: string;
+  notes: string | null;
+}
+
+const toPayload = (input: CustomerInput) => ({
+  page_no: input.pageNo,
+  first_name: input.firstName,
+  last_name: input.lastName,
+  village_name: input.villageName,
+  notes: input.notes,
+});
+
+const buildCustomerQuery = (ledgerId: string, filters: CustomerFilters, sort: CustomerSort, withCount: boolean) => {
+  let query = supabase
+    .from("customers")
+    .select("*", withCount ? { count: "exact" } : undefined)
+    .eq("ledger_id", ledgerId)
+    .is("deleted_at", null);
+
+  if (filters.id.trim()) {
+    query = query.ilike("id_text", `%${escapeLike(filters.id.trim())}%`);
+  }
+  if (filters.firstName.trim()) {
+    query = query.ilike("first_name", `%${escapeLike(filters.firstName.trim())}%`);
+  }
+  if (filters.lastName.trim()) {
+    query = query.ilike("last_name", `%${escapeLike(filters.lastName.trim())}%`);
+  }
+  if (filters.villageName.trim()) {
+    query = query.ilike("village_name", `%${escapeLike(filters.villageName.trim())}%`);
+  }
+  const pageNo = parseInt(filters.pageNo);
+  if (!isNaN(pageNo)) {
+    query = query.eq("page_no", pageNo);
+  }
+
+  return query
+    .order(sort.key, { ascending: sort.ascending })
+    .order("id", { ascending: true });
+};
+
+/** The test buildCustomerQuery applies, for customers that so far exist only on this device */
+export function matchesCustomerFilters(customer: Customer, filters: CustomerFilters) {
+  const contains = (value: string, filter: string) =>
+    !filter.trim() || value.toLowerCase().includes(filter.trim().toLowerCase());
+  const pageNo = parseInt(filters.pageNo);
+
+  return contains(customer.id, filters.id)
+    && contains(customer.firstName, filters.firstName)
+    && contains(customer.lastName, filters.lastName)
+    && contains(customer.villageName, filters.villageName)
+    && (isNaN(pageNo) || customer.pageNo === pageNo);
+}
+
+/** One page of customers plus the total matching the filters; from/to are inclusive row offsets */
+export async function listCustomers(
+  ledgerId: string,
+  filters: CustomerFilters,
+  sort: CustomerSort,
+  from: number,
+  to: number
+) {
+  const { data, error, count } = await buildCustomerQuery(ledgerId, filters, sort, true).range(from, to);
+  if (error) throw error;
+  return { customers: (data || []).map(toCustomer), count: count ?? 0 };
+}
+
+/** Every customer matching the filters, a chunk at a time */
+export async function* customerChunks(ledgerId: string, filters: CustomerFilters, sort: CustomerSort, chunkSize: number) {
+  for (let from = 0; ; from += chunkSize) {
+    const { data, error } = await buildCustomerQuery(ledgerId, filters, sort, false).range(from, from + chunkSize - 1);
+    if (error) throw error;
+
+    yield (data || []).map(toCustomer);
+    if (!data || data.length < chunkSize) return;
+  }
+}
+
+/** Every customer's id and name, a chunk at a time, so imported rows can be matched to them */
+export async function* customerIdentityChunks(ledgerId: string, chunkSize: number) {
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = supabase
+      .from("customers")
+      .select("id, first_name, last_name, village_name")
+      .eq("ledger_id", ledgerId)
+      .is("deleted_at", null)
+      .order("id")
+      .limit(chunkSize);
+    if (lastId) query = query.gt("id", lastId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    yield data || [];
+    if (!data || data.length < chunkSize) return;
+    lastId = data[data.length - 1].id;
+  }
+}
+
+export async function getCustomer(id: string): Promise<Customer | null> {
+  const { data, error } = await supabase
+    .from("customers")
+    .select("*")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toCustomer(data) : null;
+}
+
+// The id is generated by the caller so a create can be retried safely after a dropped connection
+export async function createCustomer(ledgerId: string, input: CustomerInput, id: string) {
+  // Read the session locally so an offline create fails on the insert, as a network error
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+
+  const { error } = await supabase
+    .from("customers")
+    .insert({ ...toPayload(input), id, ledger_id: ledgerId, user_id: session.user.id });
+  if (error) throw error;
+}
+
+/** Which of these customer ids are already saved, mapped to whether each one is in the trash */
+export async function findSavedCustomers(ids: string[]) {
+  const saved = new Map<string, boolean>();
+  for (let i = 0; i < ids.length; i += ID_LOOKUP_SIZE) {
+    const { data, error } = await supabase
+      .from("customers")
+      .select("id, deleted_at")
+      .in("id", ids.slice(i, i + ID_LOOKUP_SIZE));
+    if (error) throw error;
+    (data || []).forEach((customer) => saved.set(customer.id, customer.deleted_at !== null));
+  }
+  return saved;
+}
+
+/** Saves a batch of new customers at once, as when importing a notebook */
+export async function createCustomers(ledgerId: string, customers: (CustomerInput & { id: string })[]) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+
+  const { error } = await supabase
+    .from("customers")
+    .insert(customers.map((customer) => ({
+      ...toPayload(customer),
+      id: customer.id,
+      ledger_id: ledgerId,
+      user_id: session.user.id,
+    })));
+  if (error) throw error;
+}
+
+export async function updateCustomer(id: string, input: CustomerInput) {
+  const { error } = await supabase
+    .from("customers")
+    .update(toPayload(input))
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Moves a customer and their moi to the trash; restoreCustomer brings them back */
+export async function deleteCustomer(id: string) {
+  const { error } = await supabase
+    .from("customers")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Restores a customer with the moi that went to the trash with them */
+export async function restoreCustomer(id: string) {
+  const { error } = await supabase
+    .from("customers")
+    .update({ deleted_at: null })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Permanently deletes a trashed customer and all their moi */
+export async function purgeCustomer(id: string) {
+  const { error } = await supabase
+    .from("customers")
+    .delete()
+    .eq("id", id)
+    .not("deleted_at", "is", null);
+  if (error) throw error;
+}
+
+/** Customers in the trash, most recently deleted first */
+export async function listTrashedCustomers(ledgerId: string): Promise<TrashedCustomer[]> {
+  const { data, error } = await supabase
+    .from("customers")
+    .select("*")
+    .eq("ledger_id", ledgerId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((customer) => ({ ...toCustomer(customer), deletedAt: customer.deleted_at as string }));
+}
+
+/**
+ * Folds duplicates into the surviving customer: their moi move over, the
+ * survivor takes the chosen details and the duplicates are removed.
+ */
+export async function mergeCustomers(survivorId: string, duplicateIds: string[], input: CustomerInput) {
+  const { error } = await supabase.rpc("merge_customers", {
+    _survivor_id: survivorId,
+    _duplicate_ids: duplicateIds,
+    _page_no: input.pageNo,
+    _first_name: input.firstName,
+    _last_name: input.lastName,
+    _village_name: input.villageName,
+    _notes: input.notes,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DateBasis, DateRange } from "@/lib/periods";
+
+const toArgs = (ledgerId: string, range: DateRange, basis: DateBasis) => ({
+  _ledger_id: ledgerId,
+  _start: range.start.toISOString(),
+  _end: range.end.toISOString(),
+  _basis: basis,
+});
+
+export async function getDashboardMetrics(ledgerId: string, range: DateRange, basis: DateBasis) {
+  const { data, error } = await supabase
+    .rpc("get_dashboard_metrics", toArgs(ledgerId, range, basis))
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getDashboardCharts(ledgerId: string, range: DateRange, basis: DateBasis) {
+  const args = toArgs(ledgerId, range, basis);
+  const [monthly, villages, amounts] = await Promise.all([
+    supabase.rpc("get_monthly_totals", args),
+    supabase.rpc("get_village_totals", args),
+    supabase.rpc("get_amount_distribution", args),
+  ]);
+
+  if (monthly.error) throw monthly.error;
+  if (villages.error) throw villages.error;
+  if (amounts.error) throw amounts.error;
+
+  return {
+    monthly: monthly.data || [],
+    villages: villages.data || [],
+    amounts: amounts.data || [],
+  };
+}
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+
+export type EventType = Enums<"event_type">;
+
+export interface MoiEvent {
+  id: string;
+  name: string;
+  eventType: EventType;
+  eventDate: string;
+  venue?: string;
+  hostName?: string;
+  notes?: string;
+}
+
+export interface EventInput {
+  name: string;
+  eventType: EventType;
+  eventDate: string;
+  venue: string | null;
+  hostName: string | null;
+  notes: string | null;
+}
+
+export interface EventTotals {
+  entries: number;
+  received: number;
+  returned: number;
+}
+
+export const emptyEventTotals: EventTotals = { entries: 0, received: 0, returned: 0 };
+
+const toMoiEvent = (event: Tables<"events">): MoiEvent => ({
+  id: event.id,
+  name: event.name,
+  eventType: event.event_type,
+  eventDate: event.event_date,
+  venue: event.venue || undefined,
+  hostName: event.host_name || undefined,
+  notes: event.notes || undefined,
+});
+
+const toPayload = (input: EventInput) => ({
+  name: input.name,
+  event_type: input.eventType,
+  event_date: input.eventDate,
+  venue: input.venue,
+  host_name: input.hostName,
+  notes: input.notes,
+});
+
+/** Functions in the ledger, most recent first */
+export async function listEvents(ledgerId: string): Promise<MoiEvent[]> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("*")
+    .eq("ledger_id", ledgerId)
+    .order("event_date", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toMoiEvent);
+}
+
+export async function getEvent(id: string): Promise<MoiEvent | null> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toMoiEvent(data) : null;
+}
+
+/** Entry count, received and returned per event, keyed by event id */
+export async function getEventTotals(ledgerId: string): Promise<Record<string, EventTotals>> {
+  const { data, error } = await supabase.rpc("get_event_totals", { _ledger_id: ledgerId });
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((row) => [
+    row.event_id,
+    { entries: Number(row.entry_count), received: Number(row.received), returned: Number(row.returned) },
+  ]));
+}
+
+export async function createEvent(ledgerId: string, input: EventInput) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+
+  const { error } = await supabase
+    .from("events")
+    .insert({ ...toPayload(input), ledger_id: ledgerId, user_id: session.user.id });
+  if (error) throw error;
+}
+
+export async function updateEvent(id: string, input: EventInput) {
+  const { error } = await supabase
+    .from("events")
+    .update(toPayload(input))
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Deletes an event; moi recorded at it are kept but no longer linked to it */
+export async function deleteEvent(id: string) {
+  const { error } = await supabase
+    .from("events")
+    .delete()
+    .eq("id", id);
+  if (error) throw error;
+}
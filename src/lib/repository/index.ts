@@ -0,0 +1,9 @@
+export * from "./types";
+export * from "./customers";
+export * from "./transactions";
+export * from "./events";
+export * from "./reciprocity";
+export * from "./dashboard";
+export * from "./ledgers";
+export * from "./audit";
+export * from "./query-keys";
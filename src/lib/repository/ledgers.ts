@@ -0,0 +1,128 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, Enums, Tables } from "@/integrations/supabase/types";
+
+export type LedgerRole = Enums<"ledger_role">;
+export type LedgerMember = Tables<"ledger_members">;
+export type LedgerInvitation = Tables<"ledger_invitations">;
+
+/** Most to least access */
+export const ledgerRoles = Constants.public.Enums.ledger_role;
+
+export interface Ledger {
+  id: string;
+  name: string;
+  /** The signed-in user's role in this ledger */
+  role: LedgerRole;
+}
+
+const requireUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+  return session.user.id;
+};
+
+/** Ledgers the signed-in user belongs to, oldest first so their own ledger leads */
+export async function listLedgers(): Promise<Ledger[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("ledger_members")
+    .select("role, ledgers(id, name)")
+    .eq("user_id", userId)
+    .order("created_date", { ascending: true });
+
+  if (error) throw error;
+  return (data || [])
+    .filter((membership) => membership.ledgers)
+    .map((membership) => ({ ...membership.ledgers, role: membership.role }));
+}
+
+// The new ledger is not readable until the owner trigger has run, so the insert returns nothing
+export async function createLedger(name: string) {
+  const userId = await requireUserId();
+  const id = crypto.randomUUID();
+  const { error } = await supabase
+    .from("ledgers")
+    .insert({ id, name, created_by: userId });
+  if (error) throw error;
+  return id;
+}
+
+export async function renameLedger(id: string, name: string) {
+  const { error } = await supabase
+    .from("ledgers")
+    .update({ name })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function listLedgerMembers(ledgerId: string): Promise<LedgerMember[]> {
+  const { data, error } = await supabase
+    .from("ledger_members")
+    .select("*")
+    .eq("ledger_id", ledgerId)
+    .order("created_date", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setLedgerMemberRole(ledgerId: string, userId: string, role: LedgerRole) {
+  const { error } = await supabase
+    .from("ledger_members")
+    .update({ role })
+    .eq("ledger_id", ledgerId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Removes someone from a ledger; a member removing themselves leaves it */
+export async function removeLedgerMember(ledgerId: string, userId: string) {
+  const { error } = await supabase
+    .from("ledger_members")
+    .delete()
+    .eq("ledger_id", ledgerId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+export async function listLedgerInvitations(ledgerId: string): Promise<LedgerInvitation[]> {
+  const { data, error } = await supabase
+    .from("ledger_invitations")
+    .select("*")
+    .eq("ledger_id", ledgerId)
+    .order("created_date", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function inviteLedgerMember(ledgerId: string, email: string, role: LedgerRole) {
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from("ledger_invitations")
+    .insert({ ledger_id: ledgerId, email: email.trim().toLowerCase(), role, invited_by: userId });
+  if (error) throw error;
+}
+
+/** Deletes an invitation, whether the owner revokes it or the invitee declines it */
+export async function deleteLedgerInvitation(id: string) {
+  const { error } = await supabase
+    .from("ledger_invitations")
+    .delete()
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Invitations addressed to the signed-in user's email, with the ledger's name */
+export async function listMyInvitations() {
+  const { data, error } = await supabase.rpc("get_my_ledger_invitations");
+  if (error) throw error;
+  return data || [];
+}
+
+/** Joins the ledger and resolves its id */
+export async function acceptLedgerInvitation(id: string) {
+  const { data, error } = await supabase.rpc("accept_ledger_invitation", { _invitation_id: id });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,57 @@
+import { QueryClient } from "@tanstack/react-query";
+import { DateBasis, DateRange } from "@/lib/periods";
+import { CustomerFilters, CustomerSort } from "./customers";
+import { ReciprocitySort } from "./reciprocity";
+import { TransactionFilters } from "./transactions";
+
+export const queryKeys = {
+  customers: ["customers"] as const,
+  customerList: (ledgerId: string, filters: CustomerFilters, sort: CustomerSort, page: number, pageSize: number) =>
+    ["customers", "list", ledgerId, { filters, sort, page, pageSize }] as const,
+  customer: (id: string) => ["customers", "detail", id] as const,
+  trashedCustomers: (ledgerId: string) => ["customers", "trash", ledgerId] as const,
+
+  transactions: ["transactions"] as const,
+  transactionList: (ledgerId: string, filters: TransactionFilters) =>
+    ["transactions", "list", ledgerId, filters] as const,
+  customerTransactions: (customerId: string) => ["transactions", "customer", customerId] as const,
+  trashedTransactions: (ledgerId: string) => ["transactions", "trash", ledgerId] as const,
+
+  events: ["events"] as const,
+  eventList: (ledgerId: string) => ["events", "list", ledgerId] as const,
+  eventTotals: (ledgerId: string) => ["events", "totals", ledgerId] as const,
+
+  reciprocity: ["reciprocity"] as const,
+  reciprocityList: (ledgerId: string, sort: ReciprocitySort, page: number, pageSize: number) =>
+    ["reciprocity", "list", ledgerId, { sort, page, pageSize }] as const,
+
+  dashboard: ["dashboard"] as const,
+  dashboardMetrics: (ledgerId: string, range: DateRange, basis: DateBasis) =>
+    ["dashboard", "metrics", ledgerId, range.start.toISOString(), range.end.toISOString(), basis] as const,
+  dashboardCharts: (ledgerId: string, range: DateRange, basis: DateBasis) =>
+    ["dashboard", "charts", ledgerId, range.start.toISOString(), range.end.toISOString(), basis] as const,
+
+  history: ["history"] as const,
+  customerHistory: (customerId: string) => ["history", "customer", customerId] as const,
+  transactionHistory: (transactionId: string) => ["history", "transaction", transactionId] as const,
+
+  ledgers: ["ledgers"] as const,
+  ledgerMembers: (ledgerId: string) => ["ledgers", "members", ledgerId] as const,
+  ledgerInvitations: (ledgerId: string) => ["ledgers", "invitations", ledgerId] as const,
+  myInvitations: ["ledgers", "my-invitations"] as const,
+};
+
+/**
+ * Balances, the transaction log, event totals, reciprocity, the dashboard and the
+ * history all derive from the same rows, so any change refreshes all of them.
+ */
+export function invalidateLedger(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.customers }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.events }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.reciprocity }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.dashboard }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.history }),
+  ]);
+}
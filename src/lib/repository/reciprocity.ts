@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ReciprocitySortKey =
+  | "last_name"
+  | "village_name"
+  | "page_no"
+  | "received"
+  | "returned"
+  | "outstanding"
+  | "last_received_date";
+
+export interface ReciprocitySort {
+  key: ReciprocitySortKey;
+  ascending: boolean;
+}
+
+export interface ReciprocityRow {
+  customerId: string;
+  name: string;
+  villageName: string;
+  pageNo: number;
+  received: number;
+  returned: number;
+  outstanding: number;
+  lastReceivedDate: string | null;
+}
+
+/**
+ * One page of the families who have given us more than we have returned, with
+ * how many there are and how much is owed to them in all; from/to are inclusive row offsets
+ */
+export async function listOutstanding(ledgerId: string, sort: ReciprocitySort, from: number, to: number) {
+  const { data, error } = await supabase.rpc("get_outstanding_families", {
+    _ledger_id: ledgerId,
+    _sort: sort.key,
+    _ascending: sort.ascending,
+    _offset: from,
+    _limit: to - from + 1,
+  });
+
+  if (error) throw error;
+  const rows = data || [];
+  return {
+    families: rows.map((row): ReciprocityRow => ({
+      customerId: row.customer_id,
+      name: `${row.first_name} ${row.last_name}`,
+      villageName: row.village_name,
+      pageNo: row.page_no,
+      received: Number(row.received),
+      returned: Number(row.returned),
+      outstanding: Number(row.outstanding),
+      lastReceivedDate: row.last_received_date,
+    })),
+    count: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    totalOutstanding: rows.length > 0 ? Number(rows[0].total_outstanding) : 0,
+  };
+}
@@ -0,0 +1,287 @@
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { CustomerFilters } from "./customers";
+import { escapeLike, ID_LOOKUP_SIZE, Transaction, TransactionWithCustomer } from "./types";
+
+export type TransactionSortKey = "created_date" | "event_date" | "amount";
+
+export const transactionSortKeys: TransactionSortKey[] = ["created_date", "event_date", "amount"];
+
+export interface TransactionFilters {
+  q: string;
+  from: string;
+  to: string;
+  type: string;
+  min: string;
+  max: string;
+  /** Only moi recorded at this event */
+  eventId: string;
+  sort: TransactionSortKey;
+  ascending: boolean;
+}
+
+export const defaultTransactionFilters: TransactionFilters = {
+  q: "",
+  from: "",
+  to: "",
+  type: "all",
+  min: "",
+  max: "",
+  eventId: "",
+  sort: "created_date",
+  ascending: false,
+};
+
+export interface TransactionInput {
+  amount: number;
+  eventDate: string;
+  eventId: string | null;
+  notes: string | null;
+}
+
+const toPayload = (input: TransactionInput) => ({
+  amount: input.amount,
+  event_date: input.eventDate,
+  event_id: input.eventId,
+  notes: input.notes,
+});
+
+const TRANSACTION_WITH_CUSTOMER =
+  "*, customers!transactions_customer_id_fkey(first_name, last_name, village_name, page_no)";
+
+// Quote a value for a PostgREST or() filter and escape LIKE wildcards in it
+const quoteLikeTerm = (term: string) => {
+  const escaped = term.replace(/[\\%_]/g, (char) => `\\${char}`);
+  return `"%${escaped.replace(/["\\]/g, (char) => `\\${char}`)}%"`;
+};
+
+const buildTransactionQuery = (ledgerId: string, filters: TransactionFilters, withCount: boolean, limit: number) => {
+  let query = supabase
+    .from("transactions")
+    .select(TRANSACTION_WITH_CUSTOMER, withCount ? { count: "exact" } : undefined)
+    .eq("ledger_id", ledgerId)
+    .is("deleted_at", null);
+
+  if (filters.from) {
+    query = query.gte("event_date", filters.from);
+  }
+  // The whole of the last day is included, up to the start of the next
+  if (filters.to) {
+    query = query.lt("event_date", format(addDays(new Date(`${filters.to}T00:00:00`), 1), "yyyy-MM-dd"));
+  }
+  if (filters.eventId) {
+    query = query.eq("event_id", filters.eventId);
+  }
+  if (filters.type === "credit") {
+    query = query.gt("amount", 0);
+  } else if (filters.type === "debit") {
+    query = query.lt("amount", 0);
+  }
+
+  // Amount range applies to the size of the entry, whether credit or debit
+  const min = parseFloat(filters.min);
+  const max = parseFloat(filters.max);
+  if (!isNaN(min) || !isNaN(max)) {
+    const low = isNaN(min) ? 0 : min;
+    const credit = [`amount.gte.${low}`, ...(isNaN(max) ? [] : [`amount.lte.${max}`])];
+    const debit = [`amount.lte.${-low}`, ...(isNaN(max) ? [] : [`amount.gte.${-max}`])];
+    query = query.or(`and(${credit.join(",")}),and(${debit.join(",")})`);
+  }
+
+  // customer_name is a computed column (first and last name), so entries match by who gave them too
+  const term = filters.q.trim();
+  if (term) {
+    query = query.or(`notes.ilike.${quoteLikeTerm(term)},customer_name.ilike.${quoteLikeTerm(term)}`);
+  }
+
+  return query
+    .order(filters.sort, { ascending: filters.ascending })
+    .order("id", { ascending: filters.ascending })
+    .limit(limit);
+};
+
+interface ListTransactionsOptions {
+  /** Keyset cursor: continue after this row on the current sort column, using id as tie-breaker */
+  after?: TransactionWithCustomer | null;
+  limit: number;
+  withCount?: boolean;
+}
+
+export async function listTransactions(
+  ledgerId: string,
+  filters: TransactionFilters,
+  options: ListTransactionsOptions
+) {
+  const { after, limit, withCount = false } = options;
+  let query = buildTransactionQuery(ledgerId, filters, withCount, limit);
+
+  if (after) {
+    const op = filters.ascending ? "gt" : "lt";
+    const value = `"${after[filters.sort]}"`;
+    query = query.or(`${filters.sort}.${op}.${value},and(${filters.sort}.eq.${value},id.${op}.${after.id})`);
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { transactions: (data || []) as TransactionWithCustomer[], count: count ?? null };
+}
+
+/** Every transaction matching the filters, a chunk at a time */
+export async function* transactionChunks(ledgerId: string, filters: TransactionFilters, chunkSize: number) {
+  let after: TransactionWithCustomer | null = null;
+
+  for (;;) {
+    const { transactions } = await listTransactions(ledgerId, filters, { after, limit: chunkSize });
+    yield transactions;
+    if (transactions.length < chunkSize) return;
+    after = transactions[transactions.length - 1];
+  }
+}
+
+/** What a printed register covers: the moi of one event, or of the customers matching the filters */
+export type RegisterScope = { eventId: string } | { filters: Partial<CustomerFilters> };
+
+const buildRegisterQuery = (ledgerId: string, scope: RegisterScope) => {
+  let query = supabase
+    .from("transactions")
+    .select("id, amount, event_date, notes, customer_id, customers!transactions_customer_id_fkey!inner(first_name, last_name, village_name, page_no)")
+    .eq("ledger_id", ledgerId)
+    .is("deleted_at", null);
+
+  if ("eventId" in scope) {
+    return query.eq("event_id", scope.eventId);
+  }
+
+  const id = scope.filters.id?.trim();
+  const firstName = scope.filters.firstName?.trim();
+  const lastName = scope.filters.lastName?.trim();
+  const villageName = scope.filters.villageName?.trim();
+  const pageNo = parseInt(scope.filters.pageNo ?? "");
+
+  if (id) query = query.ilike("customers.id_text", `%${escapeLike(id)}%`);
+  if (firstName) query = query.ilike("customers.first_name", `%${escapeLike(firstName)}%`);
+  if (lastName) query = query.ilike("customers.last_name", `%${escapeLike(lastName)}%`);
+  if (villageName) query = query.ilike("customers.village_name", `%${escapeLike(villageName)}%`);
+  if (!isNaN(pageNo)) query = query.eq("customers.page_no", pageNo);
+
+  return query;
+};
+
+/** Every moi in a register's scope with its customer, a chunk at a time */
+export async function* registerChunks(ledgerId: string, scope: RegisterScope, chunkSize: number) {
+  for (let from = 0; ; from += chunkSize) {
+    const { data, error } = await buildRegisterQuery(ledgerId, scope)
+      .order("id", { ascending: true })
+      .range(from, from + chunkSize - 1);
+    if (error) throw error;
+
+    yield data || [];
+    if (!data || data.length < chunkSize) return;
+  }
+}
+
+export async function listCustomerTransactions(customerId: string): Promise<Transaction[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("customer_id", customerId)
+    .is("deleted_at", null)
+    .order("created_date", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createTransaction(ledgerId: string, customerId: string, input: TransactionInput, id: string) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+
+  const { error } = await supabase
+    .from("transactions")
+    .insert({ ...toPayload(input), id, customer_id: customerId, ledger_id: ledgerId, user_id: session.user.id });
+  if (error) throw error;
+}
+
+/** Which of these moi ids are already saved, mapped to whether each one is in the trash */
+export async function findSavedTransactions(ids: string[]) {
+  const saved = new Map<string, boolean>();
+  for (let i = 0; i < ids.length; i += ID_LOOKUP_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, deleted_at")
+      .in("id", ids.slice(i, i + ID_LOOKUP_SIZE));
+    if (error) throw error;
+    (data || []).forEach((transaction) => saved.set(transaction.id, transaction.deleted_at !== null));
+  }
+  return saved;
+}
+
+/** Saves a batch of new moi at once, as when importing a notebook */
+export async function createTransactions(
+  ledgerId: string,
+  transactions: (TransactionInput & { id: string; customerId: string })[]
+) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("No user found");
+
+  const { error } = await supabase
+    .from("transactions")
+    .insert(transactions.map((transaction) => ({
+      ...toPayload(transaction),
+      id: transaction.id,
+      customer_id: transaction.customerId,
+      ledger_id: ledgerId,
+      user_id: session.user.id,
+    })));
+  if (error) throw error;
+}
+
+export async function updateTransaction(id: string, input: TransactionInput) {
+  const { error } = await supabase
+    .from("transactions")
+    .update(toPayload(input))
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteTransaction(id: string) {
+  const { error } = await supabase
+    .from("transactions")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function restoreTransaction(id: string) {
+  const { error } = await supabase
+    .from("transactions")
+    .update({ deleted_at: null })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function purgeTransaction(id: string) {
+  const { error } = await supabase
+    .from("transactions")
+    .delete()
+    .eq("id", id)
+    .not("deleted_at", "is", null);
+  if (error) throw error;
+}
+
+/**
+ * Moi deleted on their own, most recently deleted first. Moi that went to the
+ * trash with their customer are restored or purged with the customer instead.
+ */
+export async function listTrashedTransactions(ledgerId: string): Promise<TransactionWithCustomer[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*, customers!transactions_customer_id_fkey!inner(first_name, last_name, village_name, page_no)")
+    .eq("ledger_id", ledgerId)
+    .not("deleted_at", "is", null)
+    .is("customers.deleted_at", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as TransactionWithCustomer[];
+}
@@ -0,0 +1,39 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type CustomerRow = Tables<"customers">;
+
+export interface Customer {
+  id: string;
+  firstName: string;
+  lastName: string;
+  villageName: string;
+  pendingAmount: number;
+  createdDate: string;
+  pageNo: number;
+  notes?: string;
+}
+
+export const toCustomer = (customer: CustomerRow): Customer => ({
+  id: customer.id,
+  firstName: customer.first_name,
+  lastName: customer.last_name,
+  villageName: customer.village_name,
+  pendingAmount: Number(customer.pending_amount),
+  createdDate: customer.created_date,
+  pageNo: customer.page_no,
+  notes: customer.notes || undefined,
+});
+
+export type Transaction = Tables<"transactions">;
+
+export type TransactionCustomer = Pick<CustomerRow, "first_name" | "last_name" | "village_name" | "page_no">;
+
+export interface TransactionWithCustomer extends Transaction {
+  customers: TransactionCustomer | null;
+}
+
+// Escape LIKE wildcards so user input is matched literally
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Ids looked up per request when checking what is already saved; keeps the URL short
+export const ID_LOOKUP_SIZE = 200;
@@ -0,0 +1,34 @@
+import * as z from "zod";
+import { Constants } from "@/integrations/supabase/types";
+import { TranslationKey } from "@/lib/i18n";
+
+// Messages are translation keys, shown with t() where the error is displayed
+const message = (key: TranslationKey) => key;
+
+export const customerSchema = z.object({
+  pageNo: z.string().min(1, message("validation.pageNoRequired")),
+  firstName: z.string().min(1, message("validation.firstNameRequired")).max(100, message("validation.tooLong")),
+  lastName: z.string().min(1, message("validation.lastNameRequired")).max(100, message("validation.tooLong")),
+  villageName: z.string().min(1, message("validation.villageRequired")).max(100, message("validation.tooLong")),
+  notes: z.string().max(500, message("validation.tooLong")).optional(),
+});
+
+export const transactionSchema = z.object({
+  amount: z.string().min(1, message("validation.amountRequired")),
+  eventDate: z.string().min(1, message("validation.eventDateRequired")),
+  eventId: z.string().optional(),
+  notes: z.string().max(500, message("validation.tooLong")).optional(),
+});
+
+export const eventSchema = z.object({
+  name: z.string().min(1, message("validation.eventNameRequired")).max(200, message("validation.tooLong")),
+  eventType: z.enum(Constants.public.Enums.event_type),
+  eventDate: z.string().min(1, message("validation.eventDateRequired")),
+  venue: z.string().max(200, message("validation.tooLong")).optional(),
+  hostName: z.string().max(100, message("validation.tooLong")).optional(),
+  notes: z.string().max(500, message("validation.tooLong")).optional(),
+});
+
+export type CustomerFormValues = z.infer<typeof customerSchema>;
+export type TransactionFormValues = z.infer<typeof transactionSchema>;
+export type EventFormValues = z.infer<typeof eventSchema>;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User, Session } from "@supabase/supabase-js";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -9,11 +9,86 @@ import { toast } from "sonner";
 import DashboardMetrics from "@/components/dashboard/DashboardMetrics";
 import CustomersTab from "@/components/dashboard/CustomersTab";
 import TransactionsTab from "@/components/dashboard/TransactionsTab";
+import EventsTab from "@/components/dashboard/EventsTab";
+import ReciprocityTab from "@/components/dashboard/ReciprocityTab";
+import TrashTab from "@/components/dashboard/TrashTab";
+import EntryScreen from "@/components/dashboard/EntryScreen";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import LedgerProvider from "@/components/LedgerProvider";
+import LedgerRealtimeProvider from "@/components/LedgerRealtimeProvider";
+import LedgerSwitcher from "@/components/LedgerSwitcher";
+import LedgerInvitations from "@/components/LedgerInvitations";
+import OfflineQueueProvider from "@/components/OfflineQueueProvider";
+import SyncStatus from "@/components/SyncStatus";
+import { useLanguage } from "@/hooks/use-language";
+import { useLedger } from "@/hooks/use-ledger";
+
+// Helpers only record moi, so they get the counter screen in place of the tabs
+const DashboardContent = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get("tab") ?? "dashboard";
+  const { ledger, canEdit } = useLedger();
+  const { t } = useLanguage();
+
+  if (ledger?.role === "helper") {
+    return <EntryScreen />;
+  }
+
+  return (
+    <Tabs
+      value={activeTab}
+      onValueChange={(value) => {
+        // Keep the log's filters across tabs, but not an open customer
+        const next = new URLSearchParams(searchParams);
+        next.set("tab", value);
+        next.delete("customer");
+        setSearchParams(next);
+      }}
+      className="space-y-6"
+    >
+      <TabsList className={`grid w-full ${canEdit ? "grid-cols-6" : "grid-cols-5"} max-w-4xl mx-auto`}>
+        <TabsTrigger value="dashboard">{t("tabs.dashboard")}</TabsTrigger>
+        <TabsTrigger value="customers">{t("tabs.customers")}</TabsTrigger>
+        <TabsTrigger value="events">{t("tabs.events")}</TabsTrigger>
+        <TabsTrigger value="reciprocity">{t("tabs.reciprocity")}</TabsTrigger>
+        <TabsTrigger value="transactions">{t("tabs.transactions")}</TabsTrigger>
+        {canEdit && <TabsTrigger value="trash">{t("tabs.trash")}</TabsTrigger>}
+      </TabsList>
+
+      <TabsContent value="dashboard">
+        <DashboardMetrics />
+      </TabsContent>
+
+      <TabsContent value="customers">
+        <CustomersTab />
+      </TabsContent>
+
+      <TabsContent value="events">
+        <EventsTab />
+      </TabsContent>
+
+      <TabsContent value="reciprocity">
+        <ReciprocityTab />
+      </TabsContent>
+
+      <TabsContent value="transactions">
+        <TransactionsTab />
+      </TabsContent>
+
+      {canEdit && (
+        <TabsContent value="trash">
+          <TrashTab />
+        </TabsContent>
+      )}
+    </Tabs>
+  );
+};
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const { t } = useLanguage();
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -44,9 +119,9 @@ const Dashboard = () => {
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
-      toast.error("Error logging out");
+      toast.error(t("app.logoutFailed"));
     } else {
-      toast.success("Logged out successfully");
+      toast.success(t("app.loggedOut"));
       navigate("/auth");
     }
   };
@@ -56,39 +131,33 @@ const Dashboard = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <header className="border-b bg-card shadow-sm">
-        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
-          <h1 className="text-2xl font-bold text-primary">Moi App</h1>
-          <Button variant="outline" size="sm" onClick={handleLogout}>
-            <LogOut className="mr-2 h-4 w-4" />
-            Logout
-          </Button>
-        </div>
-      </header>
-
-      <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-2xl mx-auto">
-            <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-            <TabsTrigger value="customers">Customers</TabsTrigger>
-            <TabsTrigger value="transactions">Transaction Log</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="dashboard">
-            <DashboardMetrics />
-          </TabsContent>
-
-          <TabsContent value="customers">
-            <CustomersTab />
-          </TabsContent>
-
-          <TabsContent value="transactions">
-            <TransactionsTab />
-          </TabsContent>
-        </Tabs>
-      </main>
-    </div>
+    <LedgerProvider userId={user.id}>
+      <LedgerRealtimeProvider>
+        <OfflineQueueProvider userId={user.id}>
+          <div className="min-h-screen bg-background">
+            <header className="border-b bg-card shadow-sm">
+              <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+                <h1 className="text-2xl font-bold text-primary">{t("app.name")}</h1>
+                <div className="flex items-center gap-2">
+                  <SyncStatus />
+                  <LedgerSwitcher userId={user.id} />
+                  <LanguageSwitcher />
+                  <Button variant="outline" size="sm" onClick={handleLogout}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    {t("app.logout")}
+                  </Button>
+                </div>
+              </div>
+            </header>
+
+            <main className="container mx-auto px-4 py-8 space-y-6">
+              <LedgerInvitations />
+              <DashboardContent />
+            </main>
+          </div>
+        </OfflineQueueProvider>
+      </LedgerRealtimeProvider>
+    </LedgerProvider>
   );
 };
 
@@ -0,0 +1,278 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/hooks/use-language";
+import { useFormatters } from "@/hooks/use-formatters";
+import { amountInWords } from "@/lib/amount-words";
+import { getEvent, registerChunks } from "@/lib/repository";
+import { TranslationKey } from "@/lib/i18n";
+
+interface RegisterEntry {
+  id: string;
+  amount: number;
+  eventDate: string;
+  notes: string | null;
+  customerId: string;
+  firstName: string;
+  lastName: string;
+  villageName: string;
+  pageNo: number;
+}
+
+interface RegisterPage {
+  pageNo: number;
+  villages: { villageName: string; entries: RegisterEntry[] }[];
+  subtotal: number;
+}
+
+const CHUNK_SIZE = 1000;
+
+const filterLabels: Record<string, TranslationKey> = {
+  id: "common.customerId",
+  firstName: "common.firstName",
+  lastName: "common.lastName",
+  villageName: "common.village",
+  pageNo: "common.pageNo",
+};
+
+/** Groups entries the way the paper book is laid out: by page, then village within the page */
+const groupByPage = (entries: RegisterEntry[]): RegisterPage[] => {
+  const sorted = [...entries].sort((a, b) =>
+    a.pageNo - b.pageNo
+    || a.villageName.localeCompare(b.villageName)
+    || a.eventDate.localeCompare(b.eventDate)
+    || `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`)
+  );
+
+  const pages: RegisterPage[] = [];
+  sorted.forEach((entry) => {
+    let page = pages[pages.length - 1];
+    if (!page || page.pageNo !== entry.pageNo) {
+      page = { pageNo: entry.pageNo, villages: [], subtotal: 0 };
+      pages.push(page);
+    }
+
+    let village = page.villages[page.villages.length - 1];
+    if (!village || village.villageName !== entry.villageName) {
+      village = { villageName: entry.villageName, entries: [] };
+      page.villages.push(village);
+    }
+
+    village.entries.push(entry);
+    page.subtotal += entry.amount;
+  });
+
+  return pages;
+};
+
+const PrintRegister = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [event, setEvent] = useState<{ name: string; eventDate: string; venue: string | null } | null>(null);
+  const [pages, setPages] = useState<RegisterPage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const { toast } = useToast();
+  const { t, language } = useLanguage();
+  // Printed Tamil registers use Tamil numerals throughout
+  const { formatNumber, formatCurrency, formatDate } = useFormatters({ tamilNumerals: true });
+
+  const ledgerId = searchParams.get("ledger");
+  const eventId = searchParams.get("event");
+
+  const fetchRegister = useCallback(async () => {
+    // Without a ledger the query would read every ledger the user belongs to
+    if (!ledgerId) {
+      setPages([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setLoadFailed(false);
+
+      if (eventId) {
+        const found = await getEvent(eventId);
+        setEvent(found ? { name: found.name, eventDate: found.eventDate, venue: found.venue ?? null } : null);
+      } else {
+        setEvent(null);
+      }
+
+      const scope = eventId
+        ? { eventId }
+        : { filters: Object.fromEntries(Object.keys(filterLabels).map((key) => [key, searchParams.get(key) ?? ""])) };
+
+      const entries: RegisterEntry[] = [];
+      for await (const chunk of registerChunks(ledgerId, scope, CHUNK_SIZE)) {
+        chunk.forEach((row) => {
+          entries.push({
+            id: row.id,
+            amount: row.amount,
+            eventDate: row.event_date,
+            notes: row.notes,
+            customerId: row.customer_id,
+            firstName: row.customers.first_name,
+            lastName: row.customers.last_name,
+            villageName: row.customers.village_name,
+            pageNo: row.customers.page_no,
+          });
+        });
+      }
+
+      setPages(groupByPage(entries));
+    } catch (error) {
+      console.error("Error fetching register:", error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [ledgerId, eventId, searchParams]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      fetchRegister();
+    });
+  }, [fetchRegister, navigate]);
+
+  useEffect(() => {
+    if (!loadFailed) return;
+    toast({
+      title: t("common.error"),
+      description: t("register.loadFailed"),
+      variant: "destructive",
+    });
+  }, [loadFailed, t, toast]);
+
+  const appliedFilters = Object.keys(filterLabels)
+    .filter((key) => searchParams.get(key)?.trim())
+    .map((key) => `${t(filterLabels[key])} "${searchParams.get(key)?.trim()}"`);
+
+  const title = event ? event.name : t("register.title");
+  const subtitle = event
+    ? [formatDate(event.eventDate), event.venue].filter(Boolean).join(" · ")
+    : appliedFilters.length > 0
+      ? t("register.filteredBy", { filters: appliedFilters.join(", ") })
+      : t("register.allEntries");
+
+  const grandTotal = pages.reduce((sum, page) => sum + page.subtotal, 0);
+  const entryCount = pages.reduce(
+    (sum, page) => sum + page.villages.reduce((count, village) => count + village.entries.length, 0),
+    0
+  );
+  let serial = 0;
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      <div className="container mx-auto max-w-5xl px-4 py-8 print:max-w-none print:p-0">
+        <div className="flex justify-between items-center mb-6 print:hidden">
+          <Button variant="outline" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            <Button onClick={() => window.print()} disabled={loading || pages.length === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              {t("register.print")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold">{title}</h1>
+          <p className="text-muted-foreground print:text-black">{subtitle}</p>
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(8)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : pages.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            {ledgerId ? t("register.empty") : t("register.noLedger")}
+          </p>
+        ) : (
+          <>
+            {pages.map((page, pageIndex) => (
+              <section
+                key={page.pageNo}
+                className={`mb-8 ${pageIndex > 0 ? "print:break-before-page" : ""}`}
+              >
+                <h2 className="text-lg font-semibold border-b-2 border-foreground pb-1 mb-2">
+                  {t("register.page", { page: formatNumber(page.pageNo) })}
+                </h2>
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-1 pr-2 w-12">{t("register.serial")}</th>
+                      <th className="text-left py-1 pr-2">{t("common.name")}</th>
+                      <th className="text-left py-1 pr-2">{t("register.date")}</th>
+                      <th className="text-right py-1 pr-2">{t("common.amount")}</th>
+                      <th className="text-left py-1">{t("register.amountInWords")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {page.villages.map((village) => (
+                      <Fragment key={village.villageName}>
+                        <tr>
+                          <td colSpan={5} className="pt-3 pb-1 font-medium italic">
+                            {village.villageName}
+                          </td>
+                        </tr>
+                        {village.entries.map((entry) => {
+                          serial += 1;
+                          return (
+                            <tr key={entry.id} className="border-b border-dashed break-inside-avoid">
+                              <td className="py-1 pr-2">{formatNumber(serial)}</td>
+                              <td className="py-1 pr-2">
+                                {entry.firstName} {entry.lastName}
+                                {entry.amount < 0 && (
+                                  <span className="text-muted-foreground print:text-black"> {t("register.returned")}</span>
+                                )}
+                              </td>
+                              <td className="py-1 pr-2 whitespace-nowrap">{formatDate(entry.eventDate)}</td>
+                              <td className="py-1 pr-2 text-right whitespace-nowrap">{formatCurrency(entry.amount)}</td>
+                              <td className="py-1">{amountInWords(Math.abs(entry.amount), language)}</td>
+                            </tr>
+                          );
+                        })}
+                      </Fragment>
+                    ))}
+                    <tr className="border-t-2 border-foreground font-semibold">
+                      <td colSpan={3} className="py-2 pr-2 text-right">
+                        {t("register.pageTotal", { page: formatNumber(page.pageNo) })}
+                      </td>
+                      <td className="py-2 pr-2 text-right whitespace-nowrap">{formatCurrency(page.subtotal)}</td>
+                      <td className="py-2">{amountInWords(page.subtotal, language)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </section>
+            ))}
+
+            <div className="flex justify-between border-t-4 border-double border-foreground pt-2 font-bold break-inside-avoid">
+              <span>{t("register.grandTotal", { count: formatNumber(entryCount) })}</span>
+              <span>
+                {formatCurrency(grandTotal)} · {amountInWords(grandTotal, language)}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintRegister;
@@ -0,0 +1,50 @@
+-- Keep customers.pending_amount in sync with the transactions ledger
+CREATE OR REPLACE FUNCTION public.recalculate_customer_pending_amount(_customer_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.customers
+  SET pending_amount = COALESCE(
+    (SELECT SUM(amount) FROM public.transactions WHERE customer_id = _customer_id),
+    0
+  )
+  WHERE id = _customer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_customer_pending_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.recalculate_customer_pending_amount(NEW.customer_id);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.recalculate_customer_pending_amount(OLD.customer_id);
+    RETURN OLD;
+  END IF;
+
+  -- UPDATE: a transaction may have been moved to another customer
+  PERFORM public.recalculate_customer_pending_amount(OLD.customer_id);
+  IF NEW.customer_id IS DISTINCT FROM OLD.customer_id THEN
+    PERFORM public.recalculate_customer_pending_amount(NEW.customer_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_transactions_pending_amount
+AFTER INSERT OR DELETE OR UPDATE OF amount, customer_id ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_customer_pending_amount();
+
+-- One-time recompute for existing data
+UPDATE public.customers c
+SET pending_amount = COALESCE(
+  (SELECT SUM(t.amount) FROM public.transactions t WHERE t.customer_id = c.id),
+  0
+);
+
+ALTER TABLE public.customers ALTER COLUMN pending_amount SET NOT NULL;
+
+CREATE INDEX idx_transactions_customer_id ON public.transactions(customer_id);
@@ -0,0 +1,61 @@
+-- Create event type enum
+CREATE TYPE public.event_type AS ENUM (
+  'wedding',
+  'engagement',
+  'house_warming',
+  'ear_piercing',
+  'puberty',
+  'naming',
+  'funeral',
+  'other'
+);
+
+-- Create events table
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  event_type public.event_type NOT NULL DEFAULT 'other',
+  event_date DATE NOT NULL,
+  venue TEXT,
+  host_name TEXT,
+  notes TEXT,
+  created_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own events"
+ON public.events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own events"
+ON public.events
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own events"
+ON public.events
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own events"
+ON public.events
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_events_updated_at
+BEFORE UPDATE ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link transactions to the function they were collected at
+ALTER TABLE public.transactions
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_event_id ON public.transactions(event_id);
@@ -0,0 +1,18 @@
+-- Per-customer reciprocity: what we received vs. what we returned
+CREATE VIEW public.customer_reciprocity
+WITH (security_invoker = on) AS
+SELECT
+  c.id AS customer_id,
+  c.user_id,
+  c.first_name,
+  c.last_name,
+  c.village_name,
+  c.page_no,
+  COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0) AS received,
+  COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0) AS returned,
+  COALESCE(SUM(t.amount), 0) AS outstanding,
+  MAX(t.event_date) FILTER (WHERE t.amount > 0) AS last_received_date,
+  MAX(t.event_date) FILTER (WHERE t.amount < 0) AS last_returned_date
+FROM public.customers c
+LEFT JOIN public.transactions t ON t.customer_id = c.id
+GROUP BY c.id;
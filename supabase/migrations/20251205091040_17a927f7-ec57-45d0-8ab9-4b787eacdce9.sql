@@ -0,0 +1,13 @@
+-- Support server-side filtering, sorting and pagination of the customer list
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- PostgREST cannot apply ilike to a uuid, so expose a text copy of the id
+ALTER TABLE public.customers
+ADD COLUMN id_text TEXT GENERATED ALWAYS AS (id::text) STORED;
+
+CREATE INDEX idx_customers_user_created_date ON public.customers(user_id, created_date DESC);
+CREATE INDEX idx_customers_user_page_no ON public.customers(user_id, page_no);
+CREATE INDEX idx_customers_id_text_trgm ON public.customers USING gin (id_text extensions.gin_trgm_ops);
+CREATE INDEX idx_customers_first_name_trgm ON public.customers USING gin (first_name extensions.gin_trgm_ops);
+CREATE INDEX idx_customers_last_name_trgm ON public.customers USING gin (last_name extensions.gin_trgm_ops);
+CREATE INDEX idx_customers_village_name_trgm ON public.customers USING gin (village_name extensions.gin_trgm_ops);
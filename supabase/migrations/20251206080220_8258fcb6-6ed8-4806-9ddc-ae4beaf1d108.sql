@@ -0,0 +1,21 @@
+-- Dashboard metrics in a single round trip. Runs as the caller so RLS scopes it to their ledger.
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics()
+RETURNS TABLE (
+  last_week_amount NUMERIC,
+  last_month_amount NUMERIC,
+  total_customers BIGINT,
+  active_customers BIGINT,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC
+) AS $$
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_date >= now() - INTERVAL '7 days'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.created_date >= now() - INTERVAL '30 days'), 0),
+    (SELECT COUNT(*) FROM public.customers),
+    COUNT(DISTINCT t.customer_id) FILTER (WHERE t.created_date >= now() - INTERVAL '30 days'),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0)
+  FROM public.transactions t;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE INDEX idx_transactions_user_created_date ON public.transactions(user_id, created_date DESC);
@@ -0,0 +1,56 @@
+-- Dashboard metrics for an arbitrary window, compared with the previous window of equal length.
+-- _basis chooses whether a transaction is dated by when the moi was given or when it was entered.
+DROP FUNCTION IF EXISTS public.get_dashboard_metrics();
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  net_amount NUMERIC,
+  previous_net_amount NUMERIC,
+  entry_count BIGINT,
+  previous_entry_count BIGINT,
+  total_customers BIGINT,
+  previous_total_customers BIGINT,
+  active_customers BIGINT,
+  previous_active_customers BIGINT,
+  credit_amount NUMERIC,
+  previous_credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  previous_debit_amount NUMERIC
+) AS $$
+  WITH bounds AS (
+    SELECT _start AS cur_start, _end AS cur_end, _start - (_end - _start) AS prev_start
+  ),
+  dated AS (
+    SELECT
+      t.customer_id,
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t, bounds b
+    WHERE CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= b.prev_start
+      AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < b.cur_end
+  ),
+  windowed AS (
+    SELECT d.*, d.at >= b.cur_start AS is_current
+    FROM dated d, bounds b
+  )
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE is_current), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current), 0),
+    COUNT(*) FILTER (WHERE is_current),
+    COUNT(*) FILTER (WHERE NOT is_current),
+    (SELECT COUNT(*) FROM public.customers c WHERE c.created_date < _end),
+    (SELECT COUNT(*) FROM public.customers c WHERE c.created_date < _start),
+    COUNT(DISTINCT customer_id) FILTER (WHERE is_current),
+    COUNT(DISTINCT customer_id) FILTER (WHERE NOT is_current),
+    COALESCE(SUM(amount) FILTER (WHERE is_current AND amount > 0), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current AND amount > 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE is_current AND amount < 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE NOT is_current AND amount < 0), 0)
+  FROM windowed;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE INDEX idx_transactions_user_event_date ON public.transactions(user_id, event_date DESC);
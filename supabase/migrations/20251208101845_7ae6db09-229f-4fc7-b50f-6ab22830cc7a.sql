@@ -0,0 +1,89 @@
+-- Chart data for the dashboard, using the same window and date basis as get_dashboard_metrics
+
+-- Monthly credit/debit with the running balance carried in from before the window
+CREATE OR REPLACE FUNCTION public.get_monthly_totals(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  month DATE,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  balance NUMERIC
+) AS $$
+  WITH dated AS (
+    SELECT
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t
+  ),
+  opening AS (
+    SELECT COALESCE(SUM(amount), 0) AS amount FROM dated WHERE at < _start
+  ),
+  monthly AS (
+    SELECT
+      date_trunc('month', at AT TIME ZONE 'Asia/Kolkata')::DATE AS month,
+      COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0) AS credit_amount,
+      COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0) AS debit_amount,
+      SUM(amount) AS net_amount
+    FROM dated
+    WHERE at >= _start AND at < _end
+    GROUP BY 1
+  )
+  SELECT
+    m.month,
+    m.credit_amount,
+    m.debit_amount,
+    (SELECT amount FROM opening) + SUM(m.net_amount) OVER (ORDER BY m.month)
+  FROM monthly m
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Villages ranked by moi received in the window
+CREATE OR REPLACE FUNCTION public.get_village_totals(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  village_name TEXT,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  customer_count BIGINT
+) AS $$
+  SELECT
+    INITCAP(TRIM(c.village_name)),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0),
+    COUNT(DISTINCT c.id)
+  FROM public.transactions t
+  JOIN public.customers c ON c.id = t.customer_id
+  WHERE CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY 1
+  ORDER BY 2 DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Most common gift amounts (₹101, ₹501, ₹1,001 ...) received in the window
+CREATE OR REPLACE FUNCTION public.get_amount_distribution(
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  amount NUMERIC,
+  entry_count BIGINT
+) AS $$
+  SELECT t.amount, COUNT(*)
+  FROM public.transactions t
+  WHERE t.amount > 0
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY t.amount
+  ORDER BY COUNT(*) DESC, t.amount
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
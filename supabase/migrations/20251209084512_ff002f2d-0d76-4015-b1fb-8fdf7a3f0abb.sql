@@ -0,0 +1,4 @@
+-- Broadcast ledger changes so every open dashboard stays current without reloading.
+-- Realtime applies the tables' RLS policies, so each user only receives their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.customers;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transactions;
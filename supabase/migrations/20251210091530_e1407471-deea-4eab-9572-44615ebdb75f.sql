@@ -0,0 +1,461 @@
+-- Shared household ledgers: customers, transactions and events belong to a ledger,
+-- and everyone who is a member of the ledger can work on it.
+CREATE TYPE public.ledger_role AS ENUM ('owner', 'member');
+
+CREATE TABLE public.ledgers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Email is copied in when someone joins, since members cannot read auth.users
+CREATE TABLE public.ledger_members (
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role public.ledger_role NOT NULL DEFAULT 'member',
+  created_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (ledger_id, user_id)
+);
+
+CREATE TABLE public.ledger_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role public.ledger_role NOT NULL DEFAULT 'member',
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ledger_invitations_ledger_email ON public.ledger_invitations(ledger_id, lower(email));
+CREATE INDEX idx_ledger_invitations_email ON public.ledger_invitations(lower(email));
+CREATE INDEX idx_ledger_members_user_id ON public.ledger_members(user_id);
+
+ALTER TABLE public.ledgers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ledgers_updated_at
+BEFORE UPDATE ON public.ledgers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks run as definer so policies on ledger_members do not recurse into themselves
+CREATE OR REPLACE FUNCTION public.is_ledger_member(_ledger_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.ledger_members
+    WHERE ledger_id = _ledger_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_ledger_owner(_ledger_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.ledger_members
+    WHERE ledger_id = _ledger_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Members can view their ledgers"
+ON public.ledgers
+FOR SELECT
+USING (public.is_ledger_member(id));
+
+CREATE POLICY "Users can create ledgers"
+ON public.ledgers
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners can update their ledgers"
+ON public.ledgers
+FOR UPDATE
+USING (public.is_ledger_owner(id));
+
+CREATE POLICY "Owners can delete their ledgers"
+ON public.ledgers
+FOR DELETE
+USING (public.is_ledger_owner(id));
+
+-- Members join through accept_ledger_invitation, never by inserting directly
+CREATE POLICY "Members can view fellow members"
+ON public.ledger_members
+FOR SELECT
+USING (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.ledger_members
+FOR DELETE
+USING (public.is_ledger_owner(ledger_id) OR auth.uid() = user_id);
+
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.ledger_invitations
+FOR SELECT
+USING (public.is_ledger_owner(ledger_id) OR lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can invite members"
+ON public.ledger_invitations
+FOR INSERT
+WITH CHECK (public.is_ledger_owner(ledger_id) AND auth.uid() = invited_by);
+
+CREATE POLICY "Owners can revoke and invitees can decline invitations"
+ON public.ledger_invitations
+FOR DELETE
+USING (public.is_ledger_owner(ledger_id) OR lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Whoever creates a ledger owns it
+CREATE OR REPLACE FUNCTION public.add_ledger_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.ledger_members (ledger_id, user_id, email, role)
+  SELECT NEW.id, u.id, u.email, 'owner'
+  FROM auth.users u
+  WHERE u.id = NEW.created_by;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_ledgers_owner
+AFTER INSERT ON public.ledgers
+FOR EACH ROW
+EXECUTE FUNCTION public.add_ledger_owner();
+
+-- Every account starts with a ledger of its own
+CREATE OR REPLACE FUNCTION public.create_personal_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.ledgers (name, created_by) VALUES ('My Ledger', NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_users_personal_ledger
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_personal_ledger();
+
+CREATE OR REPLACE FUNCTION public.accept_ledger_invitation(_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  _invitation public.ledger_invitations;
+BEGIN
+  SELECT * INTO _invitation
+  FROM public.ledger_invitations
+  WHERE id = _invitation_id AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  INSERT INTO public.ledger_members (ledger_id, user_id, email, role)
+  VALUES (_invitation.ledger_id, auth.uid(), auth.jwt() ->> 'email', _invitation.role)
+  ON CONFLICT (ledger_id, user_id) DO NOTHING;
+
+  DELETE FROM public.ledger_invitations WHERE id = _invitation_id;
+
+  RETURN _invitation.ledger_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invitees cannot see the ledger until they join, so name it for them here
+CREATE OR REPLACE FUNCTION public.get_my_ledger_invitations()
+RETURNS TABLE (
+  id UUID,
+  ledger_id UUID,
+  ledger_name TEXT,
+  role public.ledger_role,
+  invited_by_email TEXT,
+  created_date TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT i.id, i.ledger_id, l.name, i.role, m.email, i.created_date
+  FROM public.ledger_invitations i
+  JOIN public.ledgers l ON l.id = i.ledger_id
+  LEFT JOIN public.ledger_members m ON m.ledger_id = i.ledger_id AND m.user_id = i.invited_by
+  WHERE lower(i.email) = lower(auth.jwt() ->> 'email')
+  ORDER BY i.created_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- One ledger for each existing account, holding everything that account entered so far
+INSERT INTO public.ledgers (name, created_by)
+SELECT 'My Ledger', u.id FROM auth.users u;
+
+ALTER TABLE public.customers ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+ALTER TABLE public.transactions ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+ALTER TABLE public.events ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+
+UPDATE public.customers c SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = c.user_id;
+UPDATE public.transactions t SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = t.user_id;
+UPDATE public.events e SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = e.user_id;
+
+ALTER TABLE public.customers ALTER COLUMN ledger_id SET NOT NULL;
+ALTER TABLE public.transactions ALTER COLUMN ledger_id SET NOT NULL;
+ALTER TABLE public.events ALTER COLUMN ledger_id SET NOT NULL;
+
+-- A transaction always belongs to the same ledger as its customer
+ALTER TABLE public.customers ADD CONSTRAINT customers_id_ledger_id_key UNIQUE (id, ledger_id);
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_customer_id_ledger_id_fkey
+FOREIGN KEY (customer_id, ledger_id) REFERENCES public.customers(id, ledger_id) ON DELETE CASCADE;
+
+DROP INDEX public.idx_customers_user_created_date;
+DROP INDEX public.idx_customers_user_page_no;
+DROP INDEX public.idx_transactions_user_created_date;
+DROP INDEX public.idx_transactions_user_event_date;
+
+CREATE INDEX idx_customers_ledger_created_date ON public.customers(ledger_id, created_date DESC);
+CREATE INDEX idx_customers_ledger_page_no ON public.customers(ledger_id, page_no);
+CREATE INDEX idx_transactions_ledger_created_date ON public.transactions(ledger_id, created_date DESC);
+CREATE INDEX idx_transactions_ledger_event_date ON public.transactions(ledger_id, event_date DESC);
+CREATE INDEX idx_events_ledger_event_date ON public.events(ledger_id, event_date DESC);
+
+-- user_id now records who made the entry; access follows ledger membership
+DROP POLICY "Users can view their own customers" ON public.customers;
+DROP POLICY "Users can create their own customers" ON public.customers;
+DROP POLICY "Users can update their own customers" ON public.customers;
+DROP POLICY "Users can delete their own customers" ON public.customers;
+
+CREATE POLICY "Members can view their ledgers' customers"
+ON public.customers
+FOR SELECT
+USING (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can create customers"
+ON public.customers
+FOR INSERT
+WITH CHECK (public.is_ledger_member(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update their ledgers' customers"
+ON public.customers
+FOR UPDATE
+USING (public.is_ledger_member(ledger_id))
+WITH CHECK (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can delete their ledgers' customers"
+ON public.customers
+FOR DELETE
+USING (public.is_ledger_member(ledger_id));
+
+DROP POLICY "Users can view their own transactions" ON public.transactions;
+DROP POLICY "Users can create their own transactions" ON public.transactions;
+DROP POLICY "Users can update their own transactions" ON public.transactions;
+DROP POLICY "Users can delete their own transactions" ON public.transactions;
+
+CREATE POLICY "Members can view their ledgers' transactions"
+ON public.transactions
+FOR SELECT
+USING (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can create transactions"
+ON public.transactions
+FOR INSERT
+WITH CHECK (public.is_ledger_member(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update their ledgers' transactions"
+ON public.transactions
+FOR UPDATE
+USING (public.is_ledger_member(ledger_id))
+WITH CHECK (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can delete their ledgers' transactions"
+ON public.transactions
+FOR DELETE
+USING (public.is_ledger_member(ledger_id));
+
+DROP POLICY "Users can view their own events" ON public.events;
+DROP POLICY "Users can create their own events" ON public.events;
+DROP POLICY "Users can update their own events" ON public.events;
+DROP POLICY "Users can delete their own events" ON public.events;
+
+CREATE POLICY "Members can view their ledgers' events"
+ON public.events
+FOR SELECT
+USING (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can create events"
+ON public.events
+FOR INSERT
+WITH CHECK (public.is_ledger_member(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update their ledgers' events"
+ON public.events
+FOR UPDATE
+USING (public.is_ledger_member(ledger_id))
+WITH CHECK (public.is_ledger_member(ledger_id));
+
+CREATE POLICY "Members can delete their ledgers' events"
+ON public.events
+FOR DELETE
+USING (public.is_ledger_member(ledger_id));
+
+-- A member may see several ledgers, so the reciprocity view and the dashboard functions scope to one
+DROP VIEW public.customer_reciprocity;
+
+CREATE VIEW public.customer_reciprocity
+WITH (security_invoker = on) AS
+SELECT
+  c.id AS customer_id,
+  c.ledger_id,
+  c.user_id,
+  c.first_name,
+  c.last_name,
+  c.village_name,
+  c.page_no,
+  COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0) AS received,
+  COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0) AS returned,
+  COALESCE(SUM(t.amount), 0) AS outstanding,
+  MAX(t.event_date) FILTER (WHERE t.amount > 0) AS last_received_date,
+  MAX(t.event_date) FILTER (WHERE t.amount < 0) AS last_returned_date
+FROM public.customers c
+LEFT JOIN public.transactions t ON t.customer_id = c.id
+GROUP BY c.id;
+
+DROP FUNCTION public.get_dashboard_metrics(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT);
+DROP FUNCTION public.get_monthly_totals(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT);
+DROP FUNCTION public.get_village_totals(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, INTEGER);
+DROP FUNCTION public.get_amount_distribution(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  net_amount NUMERIC,
+  previous_net_amount NUMERIC,
+  entry_count BIGINT,
+  previous_entry_count BIGINT,
+  total_customers BIGINT,
+  previous_total_customers BIGINT,
+  active_customers BIGINT,
+  previous_active_customers BIGINT,
+  credit_amount NUMERIC,
+  previous_credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  previous_debit_amount NUMERIC
+) AS $$
+  WITH bounds AS (
+    SELECT _start AS cur_start, _end AS cur_end, _start - (_end - _start) AS prev_start
+  ),
+  dated AS (
+    SELECT
+      t.customer_id,
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t, bounds b
+    WHERE t.ledger_id = _ledger_id
+      AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= b.prev_start
+      AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < b.cur_end
+  ),
+  windowed AS (
+    SELECT d.*, d.at >= b.cur_start AS is_current
+    FROM dated d, bounds b
+  )
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE is_current), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current), 0),
+    COUNT(*) FILTER (WHERE is_current),
+    COUNT(*) FILTER (WHERE NOT is_current),
+    (SELECT COUNT(*) FROM public.customers c WHERE c.ledger_id = _ledger_id AND c.created_date < _end),
+    (SELECT COUNT(*) FROM public.customers c WHERE c.ledger_id = _ledger_id AND c.created_date < _start),
+    COUNT(DISTINCT customer_id) FILTER (WHERE is_current),
+    COUNT(DISTINCT customer_id) FILTER (WHERE NOT is_current),
+    COALESCE(SUM(amount) FILTER (WHERE is_current AND amount > 0), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current AND amount > 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE is_current AND amount < 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE NOT is_current AND amount < 0), 0)
+  FROM windowed;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_totals(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  month DATE,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  balance NUMERIC
+) AS $$
+  WITH dated AS (
+    SELECT
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t
+    WHERE t.ledger_id = _ledger_id
+  ),
+  opening AS (
+    SELECT COALESCE(SUM(amount), 0) AS amount FROM dated WHERE at < _start
+  ),
+  monthly AS (
+    SELECT
+      date_trunc('month', at AT TIME ZONE 'Asia/Kolkata')::DATE AS month,
+      COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0) AS credit_amount,
+      COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0) AS debit_amount,
+      SUM(amount) AS net_amount
+    FROM dated
+    WHERE at >= _start AND at < _end
+    GROUP BY 1
+  )
+  SELECT
+    m.month,
+    m.credit_amount,
+    m.debit_amount,
+    (SELECT amount FROM opening) + SUM(m.net_amount) OVER (ORDER BY m.month)
+  FROM monthly m
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_village_totals(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  village_name TEXT,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  customer_count BIGINT
+) AS $$
+  SELECT
+    INITCAP(TRIM(c.village_name)),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0),
+    COUNT(DISTINCT c.id)
+  FROM public.transactions t
+  JOIN public.customers c ON c.id = t.customer_id
+  WHERE t.ledger_id = _ledger_id
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY 1
+  ORDER BY 2 DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_amount_distribution(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  amount NUMERIC,
+  entry_count BIGINT
+) AS $$
+  SELECT t.amount, COUNT(*)
+  FROM public.transactions t
+  WHERE t.ledger_id = _ledger_id
+    AND t.amount > 0
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY t.amount
+  ORDER BY COUNT(*) DESC, t.amount
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
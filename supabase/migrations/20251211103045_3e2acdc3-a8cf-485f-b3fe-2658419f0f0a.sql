@@ -0,0 +1,126 @@
+-- Roles within a ledger:
+--   owner  - everything, including who belongs to the ledger
+--   editor - adds, corrects and deletes customers, moi and events
+--   helper - adds customers and moi only, for volunteers at the collection counter
+--   viewer - reads only
+-- The enum is rebuilt rather than extended, since new enum values cannot be used in the
+-- transaction that adds them.
+DROP FUNCTION public.get_my_ledger_invitations();
+
+ALTER TYPE public.ledger_role RENAME TO ledger_role_old;
+CREATE TYPE public.ledger_role AS ENUM ('owner', 'editor', 'helper', 'viewer');
+
+ALTER TABLE public.ledger_members ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.ledger_members
+ALTER COLUMN role TYPE public.ledger_role
+USING (CASE role WHEN 'owner' THEN 'owner' ELSE 'editor' END)::public.ledger_role;
+ALTER TABLE public.ledger_members ALTER COLUMN role SET DEFAULT 'editor';
+
+ALTER TABLE public.ledger_invitations ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.ledger_invitations
+ALTER COLUMN role TYPE public.ledger_role
+USING (CASE role WHEN 'owner' THEN 'owner' ELSE 'editor' END)::public.ledger_role;
+ALTER TABLE public.ledger_invitations ALTER COLUMN role SET DEFAULT 'editor';
+
+DROP TYPE public.ledger_role_old;
+
+CREATE OR REPLACE FUNCTION public.get_my_ledger_invitations()
+RETURNS TABLE (
+  id UUID,
+  ledger_id UUID,
+  ledger_name TEXT,
+  role public.ledger_role,
+  invited_by_email TEXT,
+  created_date TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT i.id, i.ledger_id, l.name, i.role, m.email, i.created_date
+  FROM public.ledger_invitations i
+  JOIN public.ledgers l ON l.id = i.ledger_id
+  LEFT JOIN public.ledger_members m ON m.ledger_id = i.ledger_id AND m.user_id = i.invited_by
+  WHERE lower(i.email) = lower(auth.jwt() ->> 'email')
+  ORDER BY i.created_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The signed-in user's role in a ledger, or NULL when they are not a member
+CREATE OR REPLACE FUNCTION public.get_ledger_role(_ledger_id UUID)
+RETURNS public.ledger_role AS $$
+  SELECT role FROM public.ledger_members
+  WHERE ledger_id = _ledger_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_ledger(_ledger_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.get_ledger_role(_ledger_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_add_to_ledger(_ledger_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.get_ledger_role(_ledger_id) IN ('owner', 'editor', 'helper'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Owners can change members' roles"
+ON public.ledger_members
+FOR UPDATE
+USING (public.is_ledger_owner(ledger_id))
+WITH CHECK (public.is_ledger_owner(ledger_id));
+
+-- Everyone in the ledger keeps reading it; writing depends on the role
+DROP POLICY "Members can create customers" ON public.customers;
+DROP POLICY "Members can update their ledgers' customers" ON public.customers;
+DROP POLICY "Members can delete their ledgers' customers" ON public.customers;
+
+CREATE POLICY "Helpers and above can create customers"
+ON public.customers
+FOR INSERT
+WITH CHECK (public.can_add_to_ledger(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update their ledgers' customers"
+ON public.customers
+FOR UPDATE
+USING (public.can_edit_ledger(ledger_id))
+WITH CHECK (public.can_edit_ledger(ledger_id));
+
+CREATE POLICY "Editors can delete their ledgers' customers"
+ON public.customers
+FOR DELETE
+USING (public.can_edit_ledger(ledger_id));
+
+DROP POLICY "Members can create transactions" ON public.transactions;
+DROP POLICY "Members can update their ledgers' transactions" ON public.transactions;
+DROP POLICY "Members can delete their ledgers' transactions" ON public.transactions;
+
+CREATE POLICY "Helpers and above can create transactions"
+ON public.transactions
+FOR INSERT
+WITH CHECK (public.can_add_to_ledger(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update their ledgers' transactions"
+ON public.transactions
+FOR UPDATE
+USING (public.can_edit_ledger(ledger_id))
+WITH CHECK (public.can_edit_ledger(ledger_id));
+
+CREATE POLICY "Editors can delete their ledgers' transactions"
+ON public.transactions
+FOR DELETE
+USING (public.can_edit_ledger(ledger_id));
+
+DROP POLICY "Members can create events" ON public.events;
+DROP POLICY "Members can update their ledgers' events" ON public.events;
+DROP POLICY "Members can delete their ledgers' events" ON public.events;
+
+CREATE POLICY "Editors can create events"
+ON public.events
+FOR INSERT
+WITH CHECK (public.can_edit_ledger(ledger_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update their ledgers' events"
+ON public.events
+FOR UPDATE
+USING (public.can_edit_ledger(ledger_id))
+WITH CHECK (public.can_edit_ledger(ledger_id));
+
+CREATE POLICY "Editors can delete their ledgers' events"
+ON public.events
+FOR DELETE
+USING (public.can_edit_ledger(ledger_id));
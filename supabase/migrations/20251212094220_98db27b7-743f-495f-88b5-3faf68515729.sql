@@ -0,0 +1,89 @@
+-- Append-only history of every change to customers and transactions, kept so
+-- disputes years later can be settled from the record rather than from memory
+CREATE TABLE public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  -- No foreign keys: history outlives the rows it describes
+  ledger_id UUID NOT NULL,
+  table_name TEXT NOT NULL CHECK (table_name IN ('customers', 'transactions')),
+  record_id UUID NOT NULL,
+  -- The customer the change concerns, so a customer's history includes their moi
+  customer_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_row JSONB,
+  new_row JSONB,
+  changed_by UUID,
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id, changed_at DESC);
+CREATE INDEX idx_audit_log_customer ON public.audit_log(customer_id, changed_at DESC);
+CREATE INDEX idx_audit_log_ledger ON public.audit_log(ledger_id, changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Members read their ledger's history; nobody writes to it except the triggers below
+CREATE POLICY "Members can view their ledgers' history"
+ON public.audit_log
+FOR SELECT
+USING (public.is_ledger_member(ledger_id));
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_audit_log_update_delete
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  -- Maintained by other triggers; a change to these alone is not an edit anyone made
+  _derived TEXT[] := ARRAY['updated_at', 'pending_amount'];
+BEGIN
+  IF TG_OP = 'UPDATE' AND (_old - _derived) = (_new - _derived) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    ledger_id, table_name, record_id, customer_id, operation,
+    old_row, new_row, changed_by, changed_by_email
+  )
+  VALUES (
+    (_row ->> 'ledger_id')::UUID,
+    TG_TABLE_NAME,
+    (_row ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'customers' THEN (_row ->> 'id')::UUID ELSE (_row ->> 'customer_id')::UUID END,
+    TG_OP,
+    _old,
+    _new,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_customers
+AFTER INSERT OR UPDATE OR DELETE ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_transactions
+AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_log();
@@ -0,0 +1,272 @@
+-- Deleting moves customers and transactions to a trash instead of destroying them;
+-- only purging from the trash removes a row for good
+ALTER TABLE public.customers ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.transactions ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_customers_ledger_deleted_at ON public.customers(ledger_id, deleted_at DESC)
+WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_transactions_ledger_deleted_at ON public.transactions(ledger_id, deleted_at DESC)
+WHERE deleted_at IS NOT NULL;
+
+-- A customer's moi go to the trash with them and come back with them. Stamping the
+-- moi with the customer's deleted_at tells those apart from moi trashed on their own,
+-- which stay in the trash when the customer is restored.
+CREATE OR REPLACE FUNCTION public.cascade_customer_deleted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.transactions
+    SET deleted_at = NEW.deleted_at
+    WHERE customer_id = NEW.id AND deleted_at IS NULL;
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.transactions
+    SET deleted_at = NULL
+    WHERE customer_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER cascade_customers_deleted_at
+AFTER UPDATE OF deleted_at ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.cascade_customer_deleted_at();
+
+-- Trashed moi no longer count towards the balance
+CREATE OR REPLACE FUNCTION public.recalculate_customer_pending_amount(_customer_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.customers
+  SET pending_amount = COALESCE(
+    (SELECT SUM(amount) FROM public.transactions WHERE customer_id = _customer_id AND deleted_at IS NULL),
+    0
+  )
+  WHERE id = _customer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER sync_transactions_pending_amount ON public.transactions;
+
+CREATE TRIGGER sync_transactions_pending_amount
+AFTER INSERT OR DELETE OR UPDATE OF amount, customer_id, deleted_at ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_customer_pending_amount();
+
+-- In the history, trashing and restoring read as their own operations and a
+-- purge is the final delete
+ALTER TABLE public.audit_log DROP CONSTRAINT audit_log_operation_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_operation_check
+CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE'));
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  _operation TEXT := CASE WHEN TG_OP = 'DELETE' THEN 'PURGE' ELSE TG_OP END;
+  -- Maintained by other triggers; a change to these alone is not an edit anyone made
+  _derived TEXT[] := ARRAY['updated_at', 'pending_amount'];
+BEGIN
+  IF TG_OP = 'UPDATE' AND (_old - _derived) = (_new - _derived) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND _old ->> 'deleted_at' IS NULL AND _new ->> 'deleted_at' IS NOT NULL THEN
+    _operation := 'DELETE';
+  ELSIF TG_OP = 'UPDATE' AND _old ->> 'deleted_at' IS NOT NULL AND _new ->> 'deleted_at' IS NULL THEN
+    _operation := 'RESTORE';
+  END IF;
+
+  INSERT INTO public.audit_log (
+    ledger_id, table_name, record_id, customer_id, operation,
+    old_row, new_row, changed_by, changed_by_email
+  )
+  VALUES (
+    (_row ->> 'ledger_id')::UUID,
+    TG_TABLE_NAME,
+    (_row ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'customers' THEN (_row ->> 'id')::UUID ELSE (_row ->> 'customer_id')::UUID END,
+    _operation,
+    _old,
+    _new,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reciprocity and the dashboard leave out everything in the trash
+DROP VIEW public.customer_reciprocity;
+
+CREATE VIEW public.customer_reciprocity
+WITH (security_invoker = on) AS
+SELECT
+  c.id AS customer_id,
+  c.ledger_id,
+  c.user_id,
+  c.first_name,
+  c.last_name,
+  c.village_name,
+  c.page_no,
+  COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0) AS received,
+  COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0) AS returned,
+  COALESCE(SUM(t.amount), 0) AS outstanding,
+  MAX(t.event_date) FILTER (WHERE t.amount > 0) AS last_received_date,
+  MAX(t.event_date) FILTER (WHERE t.amount < 0) AS last_returned_date
+FROM public.customers c
+LEFT JOIN public.transactions t ON t.customer_id = c.id AND t.deleted_at IS NULL
+WHERE c.deleted_at IS NULL
+GROUP BY c.id;
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  net_amount NUMERIC,
+  previous_net_amount NUMERIC,
+  entry_count BIGINT,
+  previous_entry_count BIGINT,
+  total_customers BIGINT,
+  previous_total_customers BIGINT,
+  active_customers BIGINT,
+  previous_active_customers BIGINT,
+  credit_amount NUMERIC,
+  previous_credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  previous_debit_amount NUMERIC
+) AS $$
+  WITH bounds AS (
+    SELECT _start AS cur_start, _end AS cur_end, _start - (_end - _start) AS prev_start
+  ),
+  dated AS (
+    SELECT
+      t.customer_id,
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t, bounds b
+    WHERE t.ledger_id = _ledger_id
+      AND t.deleted_at IS NULL
+      AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= b.prev_start
+      AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < b.cur_end
+  ),
+  windowed AS (
+    SELECT d.*, d.at >= b.cur_start AS is_current
+    FROM dated d, bounds b
+  )
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE is_current), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current), 0),
+    COUNT(*) FILTER (WHERE is_current),
+    COUNT(*) FILTER (WHERE NOT is_current),
+    (SELECT COUNT(*) FROM public.customers c
+     WHERE c.ledger_id = _ledger_id AND c.deleted_at IS NULL AND c.created_date < _end),
+    (SELECT COUNT(*) FROM public.customers c
+     WHERE c.ledger_id = _ledger_id AND c.deleted_at IS NULL AND c.created_date < _start),
+    COUNT(DISTINCT customer_id) FILTER (WHERE is_current),
+    COUNT(DISTINCT customer_id) FILTER (WHERE NOT is_current),
+    COALESCE(SUM(amount) FILTER (WHERE is_current AND amount > 0), 0),
+    COALESCE(SUM(amount) FILTER (WHERE NOT is_current AND amount > 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE is_current AND amount < 0), 0),
+    COALESCE(-SUM(amount) FILTER (WHERE NOT is_current AND amount < 0), 0)
+  FROM windowed;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_totals(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  month DATE,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  balance NUMERIC
+) AS $$
+  WITH dated AS (
+    SELECT
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t
+    WHERE t.ledger_id = _ledger_id
+      AND t.deleted_at IS NULL
+  ),
+  opening AS (
+    SELECT COALESCE(SUM(amount), 0) AS amount FROM dated WHERE at < _start
+  ),
+  monthly AS (
+    SELECT
+      date_trunc('month', at AT TIME ZONE 'Asia/Kolkata')::DATE AS month,
+      COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0) AS credit_amount,
+      COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0) AS debit_amount,
+      SUM(amount) AS net_amount
+    FROM dated
+    WHERE at >= _start AND at < _end
+    GROUP BY 1
+  )
+  SELECT
+    m.month,
+    m.credit_amount,
+    m.debit_amount,
+    (SELECT amount FROM opening) + SUM(m.net_amount) OVER (ORDER BY m.month)
+  FROM monthly m
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_village_totals(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  village_name TEXT,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  customer_count BIGINT
+) AS $$
+  SELECT
+    INITCAP(TRIM(c.village_name)),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0),
+    COUNT(DISTINCT c.id)
+  FROM public.transactions t
+  JOIN public.customers c ON c.id = t.customer_id
+  WHERE t.ledger_id = _ledger_id
+    AND t.deleted_at IS NULL
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY 1
+  ORDER BY 2 DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_amount_distribution(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date',
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  amount NUMERIC,
+  entry_count BIGINT
+) AS $$
+  SELECT t.amount, COUNT(*)
+  FROM public.transactions t
+  WHERE t.ledger_id = _ledger_id
+    AND t.deleted_at IS NULL
+    AND t.amount > 0
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END >= _start
+    AND CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END < _end
+  GROUP BY t.amount
+  ORDER BY COUNT(*) DESC, t.amount
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
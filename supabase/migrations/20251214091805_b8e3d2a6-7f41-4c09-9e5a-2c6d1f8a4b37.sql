@@ -0,0 +1,71 @@
+-- The same family is often entered twice from different books; merging folds the
+-- duplicates into one customer without losing any of their moi
+ALTER TABLE public.audit_log DROP CONSTRAINT audit_log_operation_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_operation_check
+CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE', 'MERGE'));
+
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _survivor_id UUID,
+  _duplicate_ids UUID[],
+  _page_no INTEGER,
+  _first_name TEXT,
+  _last_name TEXT,
+  _village_name TEXT,
+  _notes TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  _ledger_id UUID;
+  _survivor JSONB;
+  _duplicate public.customers;
+BEGIN
+  SELECT ledger_id INTO _ledger_id
+  FROM public.customers
+  WHERE id = _survivor_id AND deleted_at IS NULL;
+
+  IF NOT FOUND OR NOT public.can_edit_ledger(_ledger_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  _duplicate_ids := ARRAY(SELECT DISTINCT unnest(_duplicate_ids) EXCEPT SELECT _survivor_id);
+
+  IF cardinality(_duplicate_ids) = 0 OR cardinality(_duplicate_ids) <> (
+    SELECT COUNT(*) FROM public.customers
+    WHERE id = ANY(_duplicate_ids) AND ledger_id = _ledger_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Customers to merge must be in the same ledger';
+  END IF;
+
+  -- Trashed moi move too, so restoring one later finds its customer. The pending
+  -- amount trigger recomputes the survivor's balance as each row moves.
+  UPDATE public.transactions
+  SET customer_id = _survivor_id
+  WHERE customer_id = ANY(_duplicate_ids);
+
+  UPDATE public.customers
+  SET page_no = _page_no,
+      first_name = _first_name,
+      last_name = _last_name,
+      village_name = _village_name,
+      notes = _notes
+  WHERE id = _survivor_id
+  RETURNING to_jsonb(customers.*) INTO _survivor;
+
+  -- The survivor's history keeps each duplicate as it was, so the merge can be traced
+  FOR _duplicate IN
+    SELECT * FROM public.customers WHERE id = ANY(_duplicate_ids)
+  LOOP
+    INSERT INTO public.audit_log (
+      ledger_id, table_name, record_id, customer_id, operation,
+      old_row, new_row, changed_by, changed_by_email
+    )
+    VALUES (
+      _ledger_id, 'customers', _duplicate.id, _survivor_id, 'MERGE',
+      to_jsonb(_duplicate), _survivor, auth.uid(), auth.jwt() ->> 'email'
+    );
+  END LOOP;
+
+  -- Nothing is left to cascade, so the duplicates can go for good
+  DELETE FROM public.customers WHERE id = ANY(_duplicate_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
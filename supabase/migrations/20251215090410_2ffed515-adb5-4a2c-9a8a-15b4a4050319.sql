@@ -0,0 +1,19 @@
+-- Summed in the database so an event's totals are not cut short by the API's row limit
+CREATE OR REPLACE FUNCTION public.get_event_totals(_ledger_id UUID)
+RETURNS TABLE (
+  event_id UUID,
+  entry_count BIGINT,
+  received NUMERIC,
+  returned NUMERIC
+) AS $$
+  SELECT
+    t.event_id,
+    COUNT(*),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount >= 0), 0),
+    COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0)
+  FROM public.transactions t
+  WHERE t.ledger_id = _ledger_id
+    AND t.event_id IS NOT NULL
+    AND t.deleted_at IS NULL
+  GROUP BY t.event_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
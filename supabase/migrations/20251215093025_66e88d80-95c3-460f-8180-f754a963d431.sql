@@ -0,0 +1,82 @@
+-- The reciprocity view grouped every customer in every ledger before the ledger
+-- filter applied, and the API's row limit cut the list and its total short. The
+-- function filters by ledger first, pages in the database and carries the totals
+-- for the whole list on every row.
+DROP VIEW public.customer_reciprocity;
+
+CREATE OR REPLACE FUNCTION public.get_outstanding_families(
+  _ledger_id UUID,
+  _sort TEXT DEFAULT 'outstanding',
+  _ascending BOOLEAN DEFAULT false,
+  _offset INTEGER DEFAULT 0,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  customer_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  village_name TEXT,
+  page_no INTEGER,
+  received NUMERIC,
+  returned NUMERIC,
+  outstanding NUMERIC,
+  last_received_date TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT,
+  total_outstanding NUMERIC
+) AS $$
+  WITH balances AS (
+    SELECT
+      c.id AS customer_id,
+      c.first_name,
+      c.last_name,
+      c.village_name,
+      c.page_no,
+      COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0) AS received,
+      COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0) AS returned,
+      COALESCE(SUM(t.amount), 0) AS outstanding,
+      MAX(t.event_date) FILTER (WHERE t.amount > 0) AS last_received_date
+    FROM public.customers c
+    LEFT JOIN public.transactions t ON t.customer_id = c.id AND t.deleted_at IS NULL
+    WHERE c.ledger_id = _ledger_id
+      AND c.deleted_at IS NULL
+    GROUP BY c.id
+  ),
+  owed AS (
+    SELECT
+      b.*,
+      COUNT(*) OVER () AS total_count,
+      SUM(b.outstanding) OVER () AS total_outstanding
+    FROM balances b
+    WHERE b.outstanding > 0
+  )
+  SELECT *
+  FROM owed o
+  ORDER BY
+    CASE WHEN _ascending THEN
+      CASE _sort WHEN 'last_name' THEN o.last_name WHEN 'village_name' THEN o.village_name END
+    END ASC,
+    CASE WHEN NOT _ascending THEN
+      CASE _sort WHEN 'last_name' THEN o.last_name WHEN 'village_name' THEN o.village_name END
+    END DESC,
+    CASE WHEN _ascending THEN
+      CASE _sort
+        WHEN 'page_no' THEN o.page_no
+        WHEN 'received' THEN o.received
+        WHEN 'returned' THEN o.returned
+        WHEN 'outstanding' THEN o.outstanding
+      END
+    END ASC,
+    CASE WHEN NOT _ascending THEN
+      CASE _sort
+        WHEN 'page_no' THEN o.page_no
+        WHEN 'received' THEN o.received
+        WHEN 'returned' THEN o.returned
+        WHEN 'outstanding' THEN o.outstanding
+      END
+    END DESC,
+    CASE WHEN _ascending AND _sort = 'last_received_date' THEN o.last_received_date END ASC NULLS LAST,
+    CASE WHEN NOT _ascending AND _sort = 'last_received_date' THEN o.last_received_date END DESC NULLS LAST,
+    o.customer_id
+  OFFSET _offset
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
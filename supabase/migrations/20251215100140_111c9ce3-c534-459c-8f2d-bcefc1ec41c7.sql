@@ -0,0 +1,2 @@
+-- Events created or renamed by another member reach open dashboards like moi do
+ALTER PUBLICATION supabase_realtime ADD TABLE public.events;
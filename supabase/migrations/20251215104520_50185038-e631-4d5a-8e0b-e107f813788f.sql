@@ -0,0 +1,42 @@
+-- A ledger always keeps at least one owner, so someone can still manage its members.
+-- Rows removed because the ledger or the account itself was deleted are let through.
+CREATE OR REPLACE FUNCTION public.keep_last_ledger_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Locking the ledger makes two owners demoting each other at once take turns
+  PERFORM 1 FROM public.ledgers WHERE id = OLD.ledger_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ledger_members
+    WHERE ledger_id = OLD.ledger_id AND role = 'owner' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A ledger must keep at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER keep_ledger_members_last_owner
+BEFORE UPDATE OF role OR DELETE ON public.ledger_members
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_last_ledger_owner();
+
+-- A transaction can only be linked to an event of its own ledger
+UPDATE public.transactions t
+SET event_id = NULL
+FROM public.events e
+WHERE e.id = t.event_id AND e.ledger_id <> t.ledger_id;
+
+ALTER TABLE public.events ADD CONSTRAINT events_id_ledger_id_key UNIQUE (id, ledger_id);
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_event_id_fkey;
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_event_id_ledger_id_fkey
+FOREIGN KEY (event_id, ledger_id) REFERENCES public.events(id, ledger_id) ON DELETE SET NULL (event_id);
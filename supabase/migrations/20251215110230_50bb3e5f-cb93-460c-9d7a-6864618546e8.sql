@@ -0,0 +1,15 @@
+-- Balances are only recalculated by the transactions trigger; nobody calls this through the API
+REVOKE EXECUTE ON FUNCTION public.recalculate_customer_pending_amount(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A recalculated balance is not an edit of the customer, so it leaves updated_at alone.
+-- id_text is generated and not yet filled in on NEW, so it is left out of the comparison too.
+DROP TRIGGER update_customers_updated_at ON public.customers;
+
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+WHEN (
+  (to_jsonb(OLD) - ARRAY['updated_at', 'pending_amount', 'id_text'])
+  IS DISTINCT FROM (to_jsonb(NEW) - ARRAY['updated_at', 'pending_amount', 'id_text'])
+)
+EXECUTE FUNCTION public.update_updated_at_column();
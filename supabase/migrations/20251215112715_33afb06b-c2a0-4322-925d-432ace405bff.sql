@@ -0,0 +1,51 @@
+-- Every month of the range gets a row, so quiet months show as zero bars and a flat balance
+-- instead of the chart jumping straight from one busy month to the next
+CREATE OR REPLACE FUNCTION public.get_monthly_totals(
+  _ledger_id UUID,
+  _start TIMESTAMP WITH TIME ZONE,
+  _end TIMESTAMP WITH TIME ZONE,
+  _basis TEXT DEFAULT 'event_date'
+)
+RETURNS TABLE (
+  month DATE,
+  credit_amount NUMERIC,
+  debit_amount NUMERIC,
+  balance NUMERIC
+) AS $$
+  WITH dated AS (
+    SELECT
+      t.amount,
+      CASE WHEN _basis = 'created_date' THEN t.created_date ELSE t.event_date END AS at
+    FROM public.transactions t
+    WHERE t.ledger_id = _ledger_id
+      AND t.deleted_at IS NULL
+  ),
+  opening AS (
+    SELECT COALESCE(SUM(amount), 0) AS amount FROM dated WHERE at < _start
+  ),
+  months AS (
+    SELECT generate_series(
+      date_trunc('month', _start AT TIME ZONE 'Asia/Kolkata'),
+      date_trunc('month', (_end - INTERVAL '1 microsecond') AT TIME ZONE 'Asia/Kolkata'),
+      INTERVAL '1 month'
+    )::DATE AS month
+  ),
+  monthly AS (
+    SELECT
+      date_trunc('month', at AT TIME ZONE 'Asia/Kolkata')::DATE AS month,
+      COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0) AS credit_amount,
+      COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0) AS debit_amount,
+      SUM(amount) AS net_amount
+    FROM dated
+    WHERE at >= _start AND at < _end
+    GROUP BY 1
+  )
+  SELECT
+    mo.month,
+    COALESCE(m.credit_amount, 0),
+    COALESCE(m.debit_amount, 0),
+    (SELECT amount FROM opening) + SUM(COALESCE(m.net_amount, 0)) OVER (ORDER BY mo.month)
+  FROM months mo
+  LEFT JOIN monthly m ON m.month = mo.month
+  ORDER BY mo.month;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,8 @@
+-- The giver's name as a computed column of transactions, so the log can search it in the
+-- same filter as the notes instead of sending a list of matching customer ids along
+CREATE OR REPLACE FUNCTION public.customer_name(public.transactions)
+RETURNS TEXT AS $$
+  SELECT c.first_name || ' ' || c.last_name
+  FROM public.customers c
+  WHERE c.id = $1.customer_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
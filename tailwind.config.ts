@@ -91,10 +91,19 @@ export default {
             height: "0",
           },
         },
+        "row-highlight": {
+          from: {
+            backgroundColor: "hsl(var(--primary) / 0.15)",
+          },
+          to: {
+            backgroundColor: "transparent",
+          },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        "row-highlight": "row-highlight 3s ease-out",
       },
     },
   },